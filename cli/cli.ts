@@ -1,11 +1,56 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
-import { RpcClient, parseJsonOrFile } from './utils/rpc.js';
+import { Argument, Command, Option } from 'commander';
+import { RpcClient, RpcClientOptions, parseJsonOrFile, parseBatchCalls, registerArtifactSources } from './utils/rpc.js';
 import { AztecUtilities } from './utils/index.js';
-import { resolveRpcUrl, resolveAdminUrl } from './config/index.js';
+import {
+  resolveRpcUrl,
+  resolveAdminUrl,
+  resolveHeaders,
+  getCacheDir,
+  getNetwork,
+  registerNetworks,
+  NetworkConfig,
+  NETWORK_URLS,
+  ENV_VARS,
+} from './config/index.js';
+import {
+  Profile,
+  loadConfig,
+  resolveProfileName,
+  getActiveProfile,
+  getProfileValue,
+  setProfileValue,
+  useProfile,
+  getConfigDir,
+  getGlobalConfigPath,
+  findProjectConfigPath,
+  PROJECT_CONFIG_FILE,
+  setNetwork,
+  removeNetwork,
+} from './config/profiles.js';
+import { fetchNetworkIdentity, verifyNetworkIdentity } from './utils/network-identity.js';
+import { listLabels, setLabel, removeLabel, resolveAddressLabel, labelNetworkKey } from './config/labels.js';
+import { ACCOUNT_TYPES, AccountType, saveAccount, loadAccount, listAccounts, removeAccount, promptHidden, readKeystorePassword } from './config/keystore.js';
+import { DEFAULT_RETRY_OPTIONS } from './utils/retry.js';
+import { EXIT_CODES, NotFoundError, ValidationError, classifyError } from './utils/errors.js';
+import { DEFAULT_REQUEST_TIMEOUT, DEFAULT_READY_TIMEOUT } from './utils/timeout.js';
+import { Progress } from './utils/progress.js';
+import { startMockNode } from './utils/mock-node.js';
+import { ResponseCache } from './utils/cache.js';
+import { compareNodes } from './utils/node-compare.js';
+import { CommandExit, startConsole } from './utils/console.js';
+import { loadPlan, runPlan } from './utils/plan.js';
+import { LoadedPlugin, PLUGIN_PACKAGE_PREFIX, getPluginsDir, loadPlugins } from './utils/plugins.js';
+import { keepConnectionsAlive } from './utils/wallet.js';
+import { OUTPUT_FORMATS, ROW_FORMATS, OutputFormat, RenderOptions, parseColumns, renderResult } from './utils/format.js';
+import { parsePath } from './utils/path.js';
+import { Annotations, buildAnnotations, fetchProtocolAddresses, knownContractClasses } from './utils/annotate.js';
+import { COMPLETION_SHELLS, CompletionProviders, CompletionShell, completeWords, completionScript } from './utils/completion.js';
+import { METHODS, describeMethod, formatSignature, isKnownMethod } from './utils/methods.js';
 import * as readline from 'readline';
-import { readdirSync, existsSync, readFileSync } from 'fs';
+import { format } from 'util';
+import { readdirSync, existsSync, readFileSync, writeFileSync } from 'fs';
 import { join, resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
@@ -147,229 +192,532 @@ program
   .option('--rpc-url <url>', 'Aztec node RPC url (or "devnet"/"testnet" for network shortcuts)', resolveRpcUrl(undefined))
   .option('--admin-url <url>', 'Aztec admin RPC url', resolveAdminUrl(undefined))
   .option('--no-pretty', 'Print compact JSON', false)
-  .option('--json', 'Output as JSON (default: raw value for utilities)', false);
+  .option('--json', 'Output as JSON (default: raw value for utilities)', false)
+  .addOption(new Option('--format <format>', 'Output format (default: JSON for RPC commands, raw value for utilities; overrides --json)').choices(OUTPUT_FORMATS))
+  .option('--human', 'Human-readable blocks, headers and receipts (same as --format pretty; --format takes precedence)')
+  .option('--columns <columns>', 'Comma-separated columns of table, csv and ndjson output (nested fields as a.b[0].c; repeatable)', collect, [])
+  .option('--select <path>', 'Output only this part of the result (a.b[0].c, wildcards as a[*] or a.*); a single value prints without quotes')
+  .option('--retries <count>', 'Retries for failed node requests (network errors, 429, 5xx)', String(DEFAULT_RETRY_OPTIONS.retries))
+  .option('--retry-delay <ms>', 'Base delay in ms for exponential backoff between retries', String(DEFAULT_RETRY_OPTIONS.retryDelay))
+  .option('--timeout <ms>', 'Timeout in ms for each node request attempt (0 disables)', String(DEFAULT_REQUEST_TIMEOUT))
+  .option('--ready-timeout <ms>', 'Max time in ms to wait for the node to be ready in notes/deploy commands (0 disables)', String(DEFAULT_READY_TIMEOUT))
+  .option('--header <header>', 'Extra HTTP header "Name: Value" sent to the node and admin endpoints (repeatable)', collect, [])
+  .option('--record <dir>', 'Record every RPC request/response as fixtures in this directory')
+  .option('--replay <dir>', 'Serve RPC responses from fixtures recorded with --record (fails on a missing fixture)')
+  .option('--no-cache', 'Do not read or write the on-disk cache of historical responses')
+  .option('--trace', 'Print every node request with target URL, response size, latency and errors to stderr', false)
+  .option('--profile <name>', 'Config profile to use (default: CAZT_PROFILE or the configured default profile)')
+  .option('--labels', 'Wrap JSON output as { result, labels } with the address book labels of the addresses it contains', false)
+  .option('--annotate', 'Annotate addresses in JSON and pretty output with protocol contract names, labels and known contract classes', false);
+
+// Command-line usage errors (unknown options, missing arguments, invalid choices) exit with the invalid input code
+program.exitOverride((error) => {
+  process.exit(error.exitCode === 1 && error.code !== 'commander.help' ? EXIT_CODES.invalid_input : error.exitCode);
+});
+
+// Under --json usage errors are printed in the same envelope as the errors of exitWithError
+program.configureOutput({
+  outputError: (message, write) => {
+    if (program.opts().json || outputFormat() === 'json') {
+      const error = new ValidationError(message.replace(/^error: /, '').trim());
+      console.error(JSON.stringify({ error: classifyError(error) }));
+    } else {
+      write(message);
+    }
+  },
+});
+
+// Helper to get the output format of the running command: --format, or pretty for --human
+// (--human doesn't set --format, which would stick to the next command run in-process)
+// The format of a profile gives way to --human and --json.
+function outputFormat(): OutputFormat | undefined {
+  const { format, human, json } = program.opts();
+  if (program.getOptionValueSource('format') === 'config' && (human || json)) {
+    return human ? 'pretty' : 'json';
+  }
+  return format ?? (human ? 'pretty' : undefined);
+}
+
+// Active config profile, loaded before each command runs
+let activeProfile: (Profile & { name: string }) | undefined;
+
+program.hook('preAction', async (_, actionCommand) => {
+  activeProfile = undefined;
+  const { columns, select } = program.opts();
+  const format = outputFormat();
+  if (columns.length > 0 && (!format || !ROW_FORMATS.includes(format))) {
+    exitWithError(new ValidationError(`--columns needs --format ${ROW_FORMATS.join(', ')}`));
+  }
+  if (select !== undefined) {
+    try {
+      parsePath(select);
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  }
+  const config = loadConfig();
+  registerNetworks(config.networks);
+  // Config commands manage profiles themselves: a missing profile isn't an error there
+  if (actionCommand.parent?.name() !== 'config') {
+    activeProfile = getActiveProfile(program.opts().profile, config);
+    if (activeProfile) {
+      applyProfile(activeProfile, actionCommand);
+    }
+  }
+  // A registered network brings its own admin URL
+  const network = getNetwork(program.opts().rpcUrl);
+  if (network?.adminUrl && program.getOptionValueSource('adminUrl') === 'default' && !process.env[ENV_VARS.ADMIN_URL]) {
+    program.setOptionValueWithSource('adminUrl', network.adminUrl, 'config');
+  }
+  // Address options accept @label from the address book of the target network
+  labelsUrl = targetUrl(actionCommand);
+  for (const key of ADDRESS_OPTIONS) {
+    const value = actionCommand.getOptionValue(key);
+    if (typeof value === 'string' && value.includes('@')) {
+      const resolved = value.split(',').map((item) => resolveAddressLabel(item.trim(), labelsUrl)).join(',');
+      actionCommand.setOptionValueWithSource(key, resolved, actionCommand.getOptionValueSource(key));
+    }
+  }
+  annotations = program.opts().annotate ? await loadAnnotations(actionCommand) : undefined;
+  if (sendsThroughWallet(actionCommand)) {
+    await checkNetworkIdentity(targetUrl(actionCommand));
+  }
+  if (actionCommand.getOptionValue('account')) {
+    await unlockAccount(actionCommand);
+  }
+});
+
+// Options that take an address (Aztec or Ethereum, or a comma-separated list of them) and accept @label
+// Map keys (`note-slot --key`, `notes fetch --storage-slot-key`) are usually addresses too.
+const ADDRESS_OPTIONS = ['contract', 'sender', 'deployer', 'address', 'scopes', 'key', 'storageSlotKey'];
+
+// Node URL (or network name) the address book is read from for the running command
+let labelsUrl: string = resolveRpcUrl(undefined);
+
+// Helper to get the node a command talks to: its own --node-url (notes/deploy) or the global --rpc-url
+function targetUrl(actionCommand: Command): string {
+  return actionCommand.opts().nodeUrl ?? program.opts().rpcUrl;
+}
+
+// Address annotations of the running command (--annotate)
+let annotations: Annotations | undefined;
+
+// Helper to gather the protocol contract addresses of the target node, its labels and the bundled contract classes
+async function loadAnnotations(actionCommand: Command): Promise<Annotations> {
+  const url = resolveRpcUrl(targetUrl(actionCommand));
+  let protocolAddresses: Record<string, string> = {};
+  try {
+    protocolAddresses = await fetchProtocolAddresses(createRpcClient({ rpcUrl: url }), url);
+  } catch (error: any) {
+    // Offline utilities still get labels and class names
+    console.error(`Warning: no protocol contract names (${error.message})`);
+  }
+  return buildAnnotations({ protocolAddresses, labels: listLabels(labelsUrl), contractClasses: await knownContractClasses(getCacheDir()) });
+}
+
+// Helper to tell whether a command sends txs through an aztec.js wallet (deploy *, contract send)
+// Calls made through the RpcClient are checked by method instead (see beforeStateChange in createRpcClient).
+function sendsThroughWallet(actionCommand: Command): boolean {
+  const parent = actionCommand.parent?.name();
+  return parent === 'deploy' || (parent === 'contract' && actionCommand.name() === 'send');
+}
+
+// Helper to refuse state changes on a node that doesn't match its network's pinned chain identity
+async function checkNetworkIdentity(url: string): Promise<void> {
+  const network = getNetwork(url) ?? getNetwork(resolveRpcUrl(url));
+  if (network) {
+    await verifyNetworkIdentity(createRpcClient({ rpcUrl: resolveRpcUrl(url), cacheDir: undefined }), network);
+  }
+}
+
+// Helper to fill the secret key (and salt) options of a command from the keystore account given with --account
+async function unlockAccount(actionCommand: Command): Promise<void> {
+  const name = actionCommand.getOptionValue('account');
+  const keyOption = actionCommand.options.find((o) => o.attributeName() === 'recipientSecretKey') ? 'recipientSecretKey' : 'secretKey';
+  for (const key of [keyOption, 'secretKeys']) {
+    if (actionCommand.getOptionValueSource(key) === 'cli') {
+      throw new ValidationError(`--account can't be combined with --${key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`);
+    }
+  }
+  // A secret key can be given in place of an account name (e.g. `contract send --account 0x...`)
+  if (!isAccountName(name)) {
+    actionCommand.setOptionValueWithSource(keyOption, name, 'config');
+    return;
+  }
+  const account = loadAccount(name, await readKeystorePassword(`Password for account "${name}": `));
+  actionCommand.setOptionValueWithSource(keyOption, account.secretKey, 'config');
+  // An explicit --salt still wins over the stored one
+  if (actionCommand.options.some((o) => o.attributeName() === 'salt') && actionCommand.getOptionValueSource('salt') !== 'cli') {
+    actionCommand.setOptionValueWithSource('salt', account.salt, 'config');
+  }
+}
+
+// Helper to tell a keystore account name from a literal secret key (hex or decimal field)
+function isAccountName(value: string): boolean {
+  return !/^(0x[0-9a-fA-F]*|\d+)$/.test(value);
+}
+
+// Helper to use profile values for options that were left at their defaults
+// Precedence (lowest to highest): built-in defaults, profile, environment variables, flags
+function applyProfile(profile: Profile & { name: string }, actionCommand: Command): void {
+  const setDefault = (cmd: Command, key: string, value: any, envVar?: string) => {
+    const source = cmd.getOptionValueSource(key);
+    if (value !== undefined && (source === undefined || source === 'default') && !(envVar && process.env[envVar])) {
+      cmd.setOptionValueWithSource(key, value, 'config');
+    }
+  };
+  setDefault(program, 'rpcUrl', profile.rpcUrl, ENV_VARS.RPC_URL);
+  setDefault(program, 'adminUrl', profile.adminUrl, ENV_VARS.ADMIN_URL);
+  if (profile.format !== undefined && !(OUTPUT_FORMATS as readonly string[]).includes(profile.format)) {
+    throw new ValidationError(`Invalid format "${profile.format}" in profile "${profile.name}" (expected one of ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  setDefault(program, 'format', profile.format);
+  // notes/deploy commands take their own node URL and account
+  const hasOption = (key: string) => actionCommand.options.some((o) => o.attributeName() === key);
+  if (hasOption('nodeUrl')) {
+    setDefault(actionCommand, 'nodeUrl', profile.rpcUrl, ENV_VARS.RPC_URL);
+  }
+  if (profile.account && isAccountName(profile.account)) {
+    if (hasOption('account')) {
+      setDefault(actionCommand, 'account', profile.account);
+    }
+  } else if (hasOption('secretKey')) {
+    setDefault(actionCommand, 'secretKey', profile.account);
+  }
+  if (profile.artifactSources) {
+    registerArtifactSources(profile.artifactSources);
+  }
+}
+
+// Helper to collect repeatable options into an array
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+// RpcClients kept alive by `cazt console` and `cazt run`, keyed by their options
+let sharedClients: Map<string, RpcClient> | undefined;
+
+// Helper to create an RpcClient from the global options
+function createRpcClient(overrides: Partial<RpcClientOptions> = {}): RpcClient {
+  const opts = program.opts();
+  const options: RpcClientOptions = {
+    rpcUrl: resolveRpcUrl(opts.rpcUrl),
+    adminUrl: opts.adminUrl,
+    pretty: !opts.noPretty,
+    ...nodeClientParams(opts.rpcUrl),
+    record: opts.record,
+    replay: opts.replay,
+    // Recording needs every request to reach the node
+    cacheDir: opts.cache && !opts.record ? getCacheDir() : undefined,
+    // Sending txs and admin changes are refused on a node that doesn't match its pinned network
+    beforeStateChange: () => checkNetworkIdentity(overrides.rpcUrl ?? opts.rpcUrl),
+    ...overrides,
+  };
+  if (!sharedClients) {
+    return new RpcClient(options);
+  }
+  const key = JSON.stringify(options);
+  if (!sharedClients.has(key)) {
+    sharedClients.set(key, new RpcClient(options));
+  }
+  return sharedClients.get(key)!;
+}
+
+// Helper to forward the global node options to utilities that create their own node client
+function nodeClientParams(nodeUrl: string | undefined): { retries: string; retryDelay: string; headers: Record<string, string>; trace: boolean; timeout: string; readyTimeout: string } {
+  const opts = program.opts();
+  return {
+    retries: opts.retries,
+    retryDelay: opts.retryDelay,
+    headers: resolveHeaders(opts.header, nodeUrl, activeProfile?.headers),
+    trace: opts.trace || false,
+    timeout: opts.timeout,
+    readyTimeout: opts.readyTimeout,
+  };
+}
+
+// Helper to run a long operation, printing its completed steps (e.g. a sent tx hash) if interrupted with Ctrl-C
+async function runInterruptible<T>(operation: string, fn: (progress: Progress) => Promise<T>): Promise<T> {
+  const progress = new Progress(operation);
+  const onInterrupt = () => {
+    const completed = progress.toJSON();
+    console.error(`\nInterrupted during ${operation}. Completed so far:`);
+    console.error(JSON.stringify(completed, null, program.opts().noPretty ? 0 : 2));
+    if (completed.txHash) {
+      console.error(`The transaction was already sent, check it with: cazt tx receipt --hash ${completed.txHash}`);
+    }
+    process.exit(130);
+  };
+  process.once('SIGINT', onInterrupt);
+  try {
+    return await fn(progress);
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+  }
+}
 
 // Raw RPC command
 program
   .command('raw')
-  .description('Generic raw JSON-RPC call')
-  .requiredOption('--method <method>', 'Method name: node_* or nodeAdmin_*')
+  .description('Generic raw JSON-RPC call (params are validated against the method registry)')
+  .option('--method <method>', 'Method name: node_* or nodeAdmin_*')
   .option('--params <params>', 'JSON array for params', '[]')
+  .option('--list', 'List known methods with their signatures')
+  .option('--describe <method>', 'Show params and result shape of a method')
+  .option('--no-validate', 'Send params as given, and allow methods missing from the registry')
   .action(async (options) => {
-    const client = new RpcClient({
-      rpcUrl: resolveRpcUrl(program.opts().rpcUrl),
-      adminUrl: program.opts().adminUrl,
-      pretty: !program.opts().noPretty,
-    });
+    const json = program.opts().json || outputFormat() === 'json';
+    if (options.list) {
+      const methods = Object.keys(METHODS);
+      outputResult(json ? methods.map(describeMethod) : methods.map(formatSignature).join('\n'), json);
+      return;
+    }
+    if (options.describe) {
+      const description = describeMethod(options.describe);
+      if (json) {
+        outputResult(description, true);
+        return;
+      }
+      const lines = [formatSignature(options.describe), '', description.description, '', 'Params:'];
+      for (const param of description.params) {
+        lines.push(`  ${param.name}${param.optional ? '?' : ''}: ${param.type}${param.description ? `  - ${param.description}` : ''}`);
+      }
+      if (description.params.length === 0) {
+        lines.push('  (none)');
+      }
+      lines.push('', `Result: ${description.result}`);
+      outputResult(lines.join('\n'));
+      return;
+    }
+    if (!options.method) {
+      throw new ValidationError("required option '--method <method>' not specified (or use --list / --describe)");
+    }
+    if (options.validate && !isKnownMethod(options.method)) {
+      throw new ValidationError(`Unknown method: ${options.method} (see 'cazt raw --list', or pass --no-validate)`);
+    }
+    const client = createRpcClient({ validate: options.validate });
     const params = parseJsonOrFile(options.params);
     const result = await client.call(options.method, params);
-    console.log(client.formatOutput(result, !program.opts().noPretty));
+    outputRpcResult(result);
+  });
+
+// Batch command
+program
+  .command('batch')
+  .description('Execute many JSON-RPC calls as a batch, reporting per-call results and errors in order')
+  .requiredOption('--file <file>', 'JSON array or NDJSON file of {"method": ..., "params": [...]} entries')
+  .option('--no-batch', 'Send calls concurrently one by one instead of as a JSON-RPC batch')
+  .action(async (options) => {
+    const client = createRpcClient();
+    const calls = parseBatchCalls(readFileSync(options.file, 'utf-8'));
+    const result = await client.callBatch(calls, options.batch);
+    outputRpcResult(result);
   });
 
 // Block commands
 const blockCmd = program.command('block').description('Block queries');
 blockCmd.command('number').description('Get current block number').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getBlockNumber', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 blockCmd.command('proven-number').description('Get proven block number').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getProvenBlockNumber', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 blockCmd.command('tips').description('Get L2 tips').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getL2Tips', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 blockCmd.command('get').description('Get block by number').requiredOption('--number <number>', 'Block number').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getBlock', [options.number]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 blockCmd.command('range').description('Get blocks range').requiredOption('--from <from>', 'From block').requiredOption('--limit <limit>', 'Limit').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getBlocks', [parseInt(options.from), parseInt(options.limit)]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 blockCmd.command('header').description('Get block header').option('--number <number>', 'Block number').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const params = options.number ? [options.number] : [];
   const result = await client.call('node_getBlockHeader', params);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 
 // Transaction commands
 const txCmd = program.command('tx').description('Transactions');
 txCmd.command('send').description('Send transaction').requiredOption('--json <json>', 'JSON object or @file.json').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const tx = parseJsonOrFile(options.json);
   const result = await client.call('node_sendTx', [tx]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 txCmd.command('receipt').description('Get transaction receipt').requiredOption('--hash <hash>', 'Transaction hash').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getTxReceipt', [options.hash]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 txCmd.command('effect').description('Get transaction effect').requiredOption('--hash <hash>', 'Transaction hash').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getTxEffect', [options.hash]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 txCmd.command('get').description('Get transaction by hash').requiredOption('--hash <hash>', 'Transaction hash').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getTxByHash', [options.hash]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 txCmd.command('pending').description('Get pending transactions').option('--limit <limit>', 'Limit').option('--after <after>', 'After hash').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const params = [
     options.limit ? parseInt(options.limit) : null,
     options.after || null,
   ];
   const result = await client.call('node_getPendingTxs', params);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 txCmd.command('pending-count').description('Get pending transaction count').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getPendingTxCount', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 txCmd.command('validate').description('Validate transaction').requiredOption('--json <json>', 'tx JSON or @file.json').option('--options <options>', 'JSON options', 'null').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const tx = parseJsonOrFile(options.json);
   const opts = parseJsonOrFile(options.options);
   const result = await client.call('node_isValidTx', [tx, opts]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 txCmd.command('sim-public').description('Simulate public calls').requiredOption('--json <json>', 'tx JSON or @file.json').option('--skip-fee-enforcement', 'Skip fee enforcement').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const tx = parseJsonOrFile(options.json);
   const result = await client.call('node_simulatePublicCalls', [tx, options.skipFeeEnforcement || null]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 
 // State commands
 const stateCmd = program.command('state').description('State queries');
 stateCmd.command('public-at').description('Get public storage at').requiredOption('--block <block>', 'Block').requiredOption('--contract <contract>', 'Contract address').requiredOption('--slot <slot>', 'Storage slot').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getPublicStorageAt', [options.block, options.contract, options.slot]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 stateCmd.command('sync-status').description('Get world state sync status').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getWorldStateSyncStatus', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 
 // Merkle commands
 const merkleCmd = program.command('merkle').description('Merkle tree queries');
-merkleCmd.command('find-leaves').description('Find leaves indexes').requiredOption('--block <block>', 'Block').requiredOption('--tree-id <treeId>', 'Tree ID').requiredOption('--leaves <leaves>', 'JSON array or @file.json').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+merkleCmd.command('find-leaves').description('Find leaves indexes').requiredOption('--block <block>', 'Block').requiredOption('--tree-id <treeId>', 'Tree ID (0-4) or name (e.g. NOTE_HASH_TREE)').requiredOption('--leaves <leaves>', 'JSON array or @file.json').action(async (options) => {
+  const client = createRpcClient();
   const leaves = parseJsonOrFile(options.leaves);
-  const result = await client.call('node_findLeavesIndexes', [options.block, parseInt(options.treeId), leaves]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  const result = await client.call('node_findLeavesIndexes', [options.block, options.treeId, leaves]);
+  outputRpcResult(result);
 });
 merkleCmd.command('nullifier-path').description('Get nullifier sibling path').requiredOption('--block <block>', 'Block').requiredOption('--index <index>', 'Index').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getNullifierSiblingPath', [options.block, options.index]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 merkleCmd.command('note-hash-path').description('Get note hash sibling path').requiredOption('--block <block>', 'Block').requiredOption('--index <index>', 'Index').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getNoteHashSiblingPath', [options.block, options.index]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 merkleCmd.command('archive-path').description('Get archive sibling path').requiredOption('--block <block>', 'Block').requiredOption('--index <index>', 'Index').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getArchiveSiblingPath', [options.block, options.index]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 merkleCmd.command('public-data-path').description('Get public data sibling path').requiredOption('--block <block>', 'Block').requiredOption('--index <index>', 'Index').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getPublicDataSiblingPath', [options.block, options.index]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 
 // Witness commands
 const witnessCmd = program.command('witness').description('Membership witnesses');
 witnessCmd.command('nullifier').description('Get nullifier membership witness').requiredOption('--block <block>', 'Block').requiredOption('--nullifier <nullifier>', 'Nullifier').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getNullifierMembershipWitness', [options.block, options.nullifier]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 witnessCmd.command('low-nullifier').description('Get low nullifier membership witness').requiredOption('--block <block>', 'Block').requiredOption('--nullifier <nullifier>', 'Nullifier').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getLowNullifierMembershipWitness', [options.block, options.nullifier]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 witnessCmd.command('public-data').description('Get public data witness').requiredOption('--block <block>', 'Block').requiredOption('--leaf-slot <leafSlot>', 'Leaf slot').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getPublicDataWitness', [options.block, options.leafSlot]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 witnessCmd.command('archive').description('Get archive membership witness').requiredOption('--block <block>', 'Block').requiredOption('--archive-leaf <archiveLeaf>', 'Archive leaf').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getArchiveMembershipWitness', [options.block, options.archiveLeaf]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 witnessCmd.command('note-hash').description('Get note hash membership witness').requiredOption('--block <block>', 'Block').requiredOption('--note-hash <noteHash>', 'Note hash').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getNoteHashMembershipWitness', [options.block, options.noteHash]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 
 // Bridge commands
 const bridgeCmd = program.command('bridge').description('L1<->L2 messages');
 bridgeCmd.command('l1-to-l2-witness').description('Get L1->L2 message membership witness').requiredOption('--block <block>', 'Block').requiredOption('--message <message>', 'Message').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getL1ToL2MessageMembershipWitness', [options.block, options.message]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 bridgeCmd.command('l1-to-l2-block').description('Get L1->L2 message block').requiredOption('--message <message>', 'Message').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getL1ToL2MessageBlock', [options.message]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 bridgeCmd.command('is-l1-to-l2-synced').description('Check if L1->L2 message is synced').requiredOption('--message <message>', 'Message').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_isL1ToL2MessageSynced', [options.message]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 bridgeCmd.command('l2-to-l1').description('Get L2->L1 messages').requiredOption('--block <block>', 'Block').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getL2ToL1Messages', [options.block]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 
 // Logs commands
 const logsCmd = program.command('logs').description('Logs');
 logsCmd.command('private').description('Get private logs').requiredOption('--from <from>', 'From block').requiredOption('--limit <limit>', 'Limit').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getPrivateLogs', [parseInt(options.from), parseInt(options.limit)]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 logsCmd.command('public').description('Get public logs').requiredOption('--filter <filter>', 'filter JSON or @file.json').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const filter = parseJsonOrFile(options.filter);
   const result = await client.call('node_getPublicLogs', [filter]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 logsCmd.command('contract-class').description('Get contract class logs').requiredOption('--filter <filter>', 'filter JSON or @file.json').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const filter = parseJsonOrFile(options.filter);
   const result = await client.call('node_getContractClassLogs', [filter]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 logsCmd.command('by-tags').description('Get logs by tags').requiredOption('--tags <tags>', 'JSON array or @file.json').option('--logs-per-tag <logsPerTag>', 'Logs per tag').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const tags = parseJsonOrFile(options.tags);
   const params = [tags];
   if (options.logsPerTag) params.push(parseInt(options.logsPerTag));
   const result = await client.call('node_getLogsByTags', params);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 
 // Notes commands
@@ -388,6 +736,7 @@ notesCmd
   .option('--secret-keys <keys>', 'Comma-separated list of secret keys (Fr) for account creation - alternative to multiple --secret-key')
   .option('--salt <salt>', 'Salt (Fr) for account creation - can be provided multiple times or comma-separated (defaults to 0 if not provided)')
   .option('--salts <salts>', 'Comma-separated list of salts (Fr) for account creation - alternative to multiple --salt (defaults to 0 if not provided)')
+  .option('--account <name>', 'Keystore account to create instead of --secret-key/--salt (see "cazt keystore")')
   .option('--status <status>', 'Note status (ACTIVE | CANCELLED | SETTLED)', 'ACTIVE')
   .option('--siloed-nullifier <nullifier>', 'Siloed nullifier (Fr) - optional')
   .option('--scopes <addresses>', 'Comma-separated list of scope addresses - optional')
@@ -398,6 +747,7 @@ notesCmd
       contractAddress: options.contract,
       nodeUrl: resolveRpcUrl(options.nodeUrl),
       debug: options.debug || false,
+      ...nodeClientParams(options.nodeUrl),
     };
     
     // Artifact is required
@@ -466,11 +816,10 @@ notesCmd
     }
 
     try {
-      const result = await AztecUtilities.fetchNotes(JSON.stringify(params));
-      console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+      const result = await runInterruptible('notes fetch', (progress) => AztecUtilities.fetchNotes(JSON.stringify(params), progress));
+      outputResult(result, true);
     } catch (error: any) {
-      console.error(`Error fetching notes: ${error.message}`);
-      process.exit(1);
+      exitWithError(error, 'Error fetching notes');
     }
   });
 
@@ -492,7 +841,7 @@ notesCmd
       if (options.siloedNoteHash) {
         // Start from siloed hash
         if (!options.contract) {
-          throw new Error('--contract is required when using --siloed-note-hash');
+          throw new ValidationError('--contract is required when using --siloed-note-hash');
         }
         params.siloedNoteHash = options.siloedNoteHash;
         params.contractAddress = options.contract;
@@ -505,10 +854,10 @@ notesCmd
       } else {
         // Compute from items
         if (!options.noteItems) {
-          throw new Error('--note-items is required when not using --raw-note-hash or --siloed-note-hash');
+          throw new ValidationError('--note-items is required when not using --raw-note-hash or --siloed-note-hash');
         }
         if (!options.storageSlot) {
-          throw new Error('--storage-slot is required when computing from note items');
+          throw new ValidationError('--storage-slot is required when computing from note items');
         }
         
         let noteItems: string[];
@@ -517,14 +866,14 @@ notesCmd
         if (options.noteItems.startsWith('@')) {
           const parsed = parseJsonOrFile(options.noteItems);
           if (!Array.isArray(parsed)) {
-            throw new Error('note-items file must contain a JSON array');
+            throw new ValidationError('note-items file must contain a JSON array');
           }
           noteItems = parsed;
         } else if (options.noteItems.trim().startsWith('[')) {
           // Try parsing as JSON array
           const parsed = JSON.parse(options.noteItems);
           if (!Array.isArray(parsed)) {
-            throw new Error('note-items must be a JSON array or comma-separated values');
+            throw new ValidationError('note-items must be a JSON array or comma-separated values');
           }
           noteItems = parsed;
         } else {
@@ -548,7 +897,7 @@ notesCmd
       // Add nonce if provided
       if (options.noteNonce) {
         if (!params.contractAddress && !params.siloedNoteHash) {
-          throw new Error('--contract is required when using --note-nonce');
+          throw new ValidationError('--contract is required when using --note-nonce');
         }
         params.noteNonce = options.noteNonce;
       }
@@ -557,13 +906,12 @@ notesCmd
       
       // If result is an object (multiple hashes), always output as JSON
       if (typeof result === 'object') {
-        console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+        outputResult(result, true);
       } else {
         outputResult(result, program.opts().json);
       }
     } catch (error: any) {
-      console.error(`Error computing note hash: ${error.message}`);
-      process.exit(1);
+      exitWithError(error, 'Error computing note hash');
     }
   });
 
@@ -585,6 +933,7 @@ notesCmd
       const params: any = {
         txHash: options.txHash,
         nodeUrl: resolveRpcUrl(options.nodeUrl),
+        ...nodeClientParams(options.nodeUrl),
       };
       
       // If note hash is provided, use it directly
@@ -596,16 +945,16 @@ notesCmd
       } else {
         // Otherwise, compute from note content
         if (!options.contract) {
-          throw new Error('--contract is required when computing hash from note content');
+          throw new ValidationError('--contract is required when computing hash from note content');
         }
         if (!options.artifact) {
-          throw new Error('--artifact is required when computing hash from note content');
+          throw new ValidationError('--artifact is required when computing hash from note content');
         }
         if (!options.noteContent) {
-          throw new Error('--note-content is required when computing hash from note content');
+          throw new ValidationError('--note-content is required when computing hash from note content');
         }
         if (!options.storageSlot) {
-          throw new Error('--storage-slot is required when computing hash from note content');
+          throw new ValidationError('--storage-slot is required when computing hash from note content');
         }
         
         params.contractAddress = options.contract;
@@ -627,10 +976,9 @@ notesCmd
       }
       
       const result = await AztecUtilities.verifyNoteInTransaction(JSON.stringify(params));
-      console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+      outputResult(result, true);
     } catch (error: any) {
-      console.error(`Error verifying note: ${error.message}`);
-      process.exit(1);
+      exitWithError(error, 'Error verifying note');
     }
   });
 
@@ -645,6 +993,7 @@ deployCmd
   .option('--node-url <url>', 'Node URL (or "devnet"/"testnet")', resolveRpcUrl(process.env.CAZT_RPC_URL))
   .option('--secret-key <key>', 'Secret key (Fr) for account creation')
   .option('--salt <salt>', 'Salt (Fr) for account creation (use "random" for random salt)')
+  .option('--account <name>', 'Keystore account to use instead of --secret-key/--salt (see "cazt keystore")')
   .option('--no-wait', 'Don\'t wait for deployment to complete', false)
   .option('--debug', 'Enable debug logging', false)
   .action(async (options) => {
@@ -654,6 +1003,7 @@ deployCmd
         artifact: options.artifact,
         wait: !options.noWait,
         debug: options.debug || false,
+        ...nodeClientParams(options.nodeUrl),
       };
 
       if (options.secretKey) {
@@ -663,14 +1013,13 @@ deployCmd
         params.salt = options.salt;
       }
 
-      const result = await AztecUtilities.deployContract(JSON.stringify(params));
+      const result = await runInterruptible('deploy', (progress) => AztecUtilities.deployContract(JSON.stringify(params), progress));
       outputResult(result, program.opts().json);
     } catch (error: any) {
-      console.error(`❌ Error: ${error.message}`);
       if (options.debug) {
         console.error(error.stack);
       }
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -683,6 +1032,7 @@ deployCmd
   .option('--node-url <url>', 'Node URL (or "devnet"/"testnet")', resolveRpcUrl(process.env.CAZT_RPC_URL))
   .option('--secret-key <key>', 'Secret key (Fr) for account creation')
   .option('--salt <salt>', 'Salt (Fr) for account creation (use "random" for random salt)')
+  .option('--account <name>', 'Keystore account to use instead of --secret-key/--salt (see "cazt keystore")')
   .option('--no-wait', 'Don\'t wait for deployment to complete', false)
   .option('--debug', 'Enable debug logging', false)
   .action(async (options) => {
@@ -693,6 +1043,7 @@ deployCmd
         contractAddressSalt: options.contractSalt,
         wait: !options.noWait,
         debug: options.debug || false,
+        ...nodeClientParams(options.nodeUrl),
       };
 
       if (options.secretKey) {
@@ -702,14 +1053,13 @@ deployCmd
         params.salt = options.salt;
       }
 
-      const result = await AztecUtilities.deployContract(JSON.stringify(params));
+      const result = await runInterruptible('deploy', (progress) => AztecUtilities.deployContract(JSON.stringify(params), progress));
       outputResult(result, program.opts().json);
     } catch (error: any) {
-      console.error(`❌ Error: ${error.message}`);
       if (options.debug) {
         console.error(error.stack);
       }
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -723,6 +1073,7 @@ deployCmd
   .option('--node-url <url>', 'Node URL (or "devnet"/"testnet")', resolveRpcUrl(process.env.CAZT_RPC_URL))
   .option('--secret-key <key>', 'Secret key (Fr) for account creation')
   .option('--salt <salt>', 'Salt (Fr) for account creation (use "random" for random salt)')
+  .option('--account <name>', 'Keystore account to use instead of --secret-key/--salt (see "cazt keystore")')
   .option('--contract-salt <salt>', 'Salt (Fr) for contract address computation (use "random" for random salt)')
   .option('--no-wait', 'Don\'t wait for deployment to complete', false)
   .option('--debug', 'Enable debug logging', false)
@@ -734,6 +1085,7 @@ deployCmd
         constructorArgs: options.args,
         wait: !options.noWait,
         debug: options.debug || false,
+        ...nodeClientParams(options.nodeUrl),
       };
 
       if (options.constructorName) {
@@ -749,14 +1101,13 @@ deployCmd
         params.contractAddressSalt = options.contractSalt;
       }
 
-      const result = await AztecUtilities.deployContract(JSON.stringify(params));
+      const result = await runInterruptible('deploy', (progress) => AztecUtilities.deployContract(JSON.stringify(params), progress));
       outputResult(result, program.opts().json);
     } catch (error: any) {
-      console.error(`❌ Error: ${error.message}`);
       if (options.debug) {
         console.error(error.stack);
       }
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -777,6 +1128,7 @@ deployCmd
   .option('--node-url <url>', 'Node URL (or "devnet"/"testnet")', resolveRpcUrl(process.env.CAZT_RPC_URL))
   .option('--secret-key <key>', 'Secret key (Fr) for account creation')
   .option('--salt <salt>', 'Salt (Fr) for account creation (use "random" for random salt)')
+  .option('--account <name>', 'Keystore account to use instead of --secret-key/--salt (see "cazt keystore")')
   .option('--no-wait', 'Don\'t wait for deployment to complete', false)
   .option('--debug', 'Enable debug logging', false)
   .action(async (options) => {
@@ -786,6 +1138,7 @@ deployCmd
         artifact: options.artifact,
         wait: !options.noWait,
         debug: options.debug || false,
+        ...nodeClientParams(options.nodeUrl),
       };
 
       if (options.args) {
@@ -822,14 +1175,13 @@ deployCmd
         params.salt = options.salt;
       }
 
-      const result = await AztecUtilities.deployContract(JSON.stringify(params));
+      const result = await runInterruptible('deploy', (progress) => AztecUtilities.deployContract(JSON.stringify(params), progress));
       outputResult(result, program.opts().json);
     } catch (error: any) {
-      console.error(`❌ Error: ${error.message}`);
       if (options.debug) {
         console.error(error.stack);
       }
-      process.exit(1);
+      exitWithError(error);
     }
   });
 
@@ -844,7 +1196,7 @@ artifactsCmd
       const result = AztecUtilities.listArtifacts(JSON.stringify({ source: 'aztec' }));
       
       if (options.full) {
-        console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+        outputResult(result, true);
       } else {
         if (result.artifacts && Array.isArray(result.artifacts)) {
           result.artifacts.forEach((artifact: any) => {
@@ -853,8 +1205,7 @@ artifactsCmd
         }
       }
     } catch (error: any) {
-      console.error(`Error listing artifacts: ${error.message}`);
-      process.exit(1);
+      exitWithError(error, 'Error listing artifacts');
     }
   });
 
@@ -867,7 +1218,7 @@ artifactsCmd
       const result = AztecUtilities.listArtifacts(JSON.stringify({ source: 'standards' }));
       
       if (options.full) {
-        console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+        outputResult(result, true);
       } else {
         if (result.artifacts && Array.isArray(result.artifacts)) {
           result.artifacts.forEach((artifact: any) => {
@@ -876,8 +1227,7 @@ artifactsCmd
         }
       }
     } catch (error: any) {
-      console.error(`Error listing artifacts: ${error.message}`);
-      process.exit(1);
+      exitWithError(error, 'Error listing artifacts');
     }
   });
 
@@ -897,8 +1247,7 @@ program
       const result = await AztecUtilities.deriveNoteSlot(params);
       outputResult(result, program.opts().json);
     } catch (error: any) {
-      console.error(`Error deriving note slot: ${error.message}`);
-      process.exit(1);
+      exitWithError(error, 'Error deriving note slot');
     }
   });
 
@@ -908,162 +1257,809 @@ program
   .description('Get storage layout from contract artifact')
   .requiredOption('--artifact <json>', 'Contract artifact JSON file path, artifact name (e.g., "aztec:Token"), or JSON string (required)')
   .action(async (options) => {
-    const artifact = parseJsonOrFile(options.artifact);
-    const params = JSON.stringify({ artifact });
-    
     try {
+      const artifact = parseJsonOrFile(options.artifact);
+      const params = JSON.stringify({ artifact });
       const result = AztecUtilities.getStorageLayout(params);
-      console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+      outputResult(result, true);
     } catch (error: any) {
-      console.error(`Error getting storage layout: ${error.message}`);
-      process.exit(1);
+      exitWithError(error, 'Error getting storage layout');
     }
   });
 
 // Contract commands
 const contractCmd = program.command('contract').description('Contract queries');
 contractCmd.command('class').description('Get contract class').requiredOption('--id <id>', 'Class ID').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getContractClass', [options.id]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
-contractCmd.command('get').description('Get contract').argument('<address>', 'Contract address').action(async (address) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+contractCmd.command('get').description('Get contract').argument('<address>', 'Contract address or @label').action(async (address) => {
+  address = resolveAddressLabel(address, labelsUrl);
+  const client = createRpcClient();
   const result = await client.call('node_getContract', [address]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
-});
+  outputRpcResult(result);
+});
+
+contractCmd
+  .command('simulate')
+  .description('Simulate a contract function (utility, private or public) and decode its return value')
+  .requiredOption('--artifact <artifact>', 'Contract artifact (aztec:ContractName, standards:ContractName, file path or JSON)')
+  .requiredOption('--contract <address>', 'Contract address or @label')
+  .requiredOption('--function <name>', 'Function name')
+  .option('--args <args>', 'Arguments as a JSON array (or comma-separated values)', '[]')
+  .option('--secret-key <key>', 'Secret key (Fr) of the account to simulate from (default: no sender)')
+  .option('--salt <salt>', 'Salt (Fr) of the account (default: 0)')
+  .option('--account <name>', 'Keystore account to simulate from instead of --secret-key/--salt (see "cazt keystore")')
+  .action(async (options) => {
+    try {
+      const params: any = {
+        nodeUrl: resolveRpcUrl(program.opts().rpcUrl),
+        artifact: parseJsonOrFile(options.artifact),
+        contractAddress: options.contract,
+        functionName: options.function,
+        args: options.args,
+        secretKey: options.secretKey,
+        salt: options.salt,
+        ...nodeClientParams(program.opts().rpcUrl),
+      };
+      const result = await AztecUtilities.simulateFunction(JSON.stringify(params));
+      outputResult(result, true);
+    } catch (error: any) {
+      exitWithError(error, 'Error simulating function');
+    }
+  });
+
+contractCmd
+  .command('send')
+  .description('Send a transaction calling a contract function, and decode the public events it emitted')
+  .requiredOption('--artifact <artifact>', 'Contract artifact (aztec:ContractName, standards:ContractName, file path or JSON)')
+  .requiredOption('--contract <address>', 'Contract address or @label')
+  .requiredOption('--function <name>', 'Function name')
+  .option('--args <args>', 'Arguments as a JSON array (or comma-separated values)', '[]')
+  .requiredOption('--account <account>', 'Account to send from: keystore account name (see "cazt keystore") or secret key (Fr)')
+  .option('--salt <salt>', 'Salt (Fr) of the account when --account is a secret key (default: 0)')
+  .option('--gas-limits <da,l2>', 'Gas limits as "<da>,<l2>" (default: chosen by the wallet)')
+  .option('--teardown-gas-limits <da,l2>', 'Teardown gas limits as "<da>,<l2>"')
+  .option('--max-fees-per-gas <da,l2>', 'Max fees per gas as "<da>,<l2>" (default: from the current base fees)')
+  .option('--max-priority-fees-per-gas <da,l2>', 'Max priority fees per gas as "<da>,<l2>"')
+  .option('--no-wait', 'Don\'t wait for the transaction to be mined')
+  .action(async (options) => {
+    try {
+      const params: any = {
+        nodeUrl: resolveRpcUrl(program.opts().rpcUrl),
+        artifact: parseJsonOrFile(options.artifact),
+        contractAddress: options.contract,
+        functionName: options.function,
+        args: options.args,
+        secretKey: options.secretKey,
+        salt: options.salt,
+        gasLimits: options.gasLimits,
+        teardownGasLimits: options.teardownGasLimits,
+        maxFeesPerGas: options.maxFeesPerGas,
+        maxPriorityFeesPerGas: options.maxPriorityFeesPerGas,
+        wait: options.wait,
+        ...nodeClientParams(program.opts().rpcUrl),
+      };
+      const result = await runInterruptible('contract send', (progress) => AztecUtilities.sendFunction(JSON.stringify(params), progress));
+      outputResult(result, true);
+    } catch (error: any) {
+      exitWithError(error, 'Error sending transaction');
+    }
+  });
 
 // Node commands
 const nodeCmd = program.command('node').description('Node info & fees');
 nodeCmd.command('ready').description('Check if node is ready').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_isReady', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 nodeCmd.command('info').description('Get node info').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getNodeInfo', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 nodeCmd.command('node-version').description('Get node version').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getNodeVersion', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 nodeCmd.command('version').description('Get version').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getVersion', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 nodeCmd.command('chain-id').description('Get chain ID').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getChainId', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 nodeCmd.command('l1-addresses').description('Get L1 contract addresses').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getL1ContractAddresses', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 nodeCmd.command('protocol-addresses').description('Get protocol contract addresses').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getProtocolContractAddresses', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 nodeCmd.command('enr').description('Get encoded ENR').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getEncodedEnr', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 nodeCmd.command('base-fees').description('Get current base fees').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getCurrentBaseFees', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
-});
+  outputRpcResult(result);
+});
+
+nodeCmd
+  .command('compare')
+  .description('Compare several nodes: L2 tips, block headers, sync status and versions (exit code 1 on any issue)')
+  .argument('<urls...>', 'Node RPC urls or network shortcuts (at least two)')
+  .option('--max-lag <blocks>', 'Blocks a node may be behind the highest tip before it is reported as lagging', '2')
+  .option('--ignore-version-skew', 'Do not fail when nodes run different versions', false)
+  .action(async (urls: string[], options) => {
+    if (urls.length < 2) {
+      exitWithError(new ValidationError('at least two node urls are required'));
+    }
+    const opts = program.opts();
+    // No cache: nodes of the same chain would share cached headers and hide a divergence
+    const targets = urls.map((url) => ({
+      url,
+      client: new RpcClient({
+        rpcUrl: resolveRpcUrl(url),
+        adminUrl: opts.adminUrl,
+        pretty: !opts.noPretty,
+        ...nodeClientParams(url),
+      }),
+    }));
+    const result = await compareNodes(targets, {
+      maxLag: parseInt(options.maxLag),
+      ignoreVersionSkew: options.ignoreVersionSkew,
+    });
+    outputResult(result, true);
+    if (!result.consistent) {
+      process.exit(1);
+    }
+  });
 
 // Validators commands
 const validatorsCmd = program.command('validators').description('Validators');
 validatorsCmd.command('stats').description('Get validators stats').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getValidatorsStats', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 validatorsCmd.command('one').description('Get validator stats').requiredOption('--address <address>', 'Validator address').option('--from-slot <fromSlot>', 'From slot').option('--to-slot <toSlot>', 'To slot').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const params = [options.address];
   if (options.fromSlot) params.push(options.fromSlot);
   if (options.toSlot) params.push(options.toSlot);
   const result = await client.call('node_getValidatorStats', params);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 
 // Debug commands
 const debugCmd = program.command('debug').description('Debug helpers');
 debugCmd.command('register-sigs').description('Register contract function signatures').requiredOption('--sigs <sigs>', 'JSON array or @file.json').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const sigs = parseJsonOrFile(options.sigs);
   const result = await client.call('node_registerContractFunctionSignatures', [sigs]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 debugCmd.command('allowed-public-setup').description('Get allowed public setup').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('node_getAllowedPublicSetup', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 
 // Admin commands
 const adminCmd = program.command('admin').description('Admin namespace (port 8880)');
 adminCmd.command('get-config').description('Get admin config').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('nodeAdmin_getConfig', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 adminCmd.command('set-config').description('Set admin config').requiredOption('--json <json>', 'partial config JSON or @file.json').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const config = parseJsonOrFile(options.json);
   const result = await client.call('nodeAdmin_setConfig', [config]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 adminCmd.command('pause-sync').description('Pause sync').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('nodeAdmin_pauseSync', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 adminCmd.command('resume-sync').description('Resume sync').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('nodeAdmin_resumeSync', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 adminCmd.command('rollback-to').description('Rollback to block').requiredOption('--target-block-number <number>', 'Target block number').option('--force', 'Force rollback').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const params = [parseInt(options.targetBlockNumber), options.force || null];
   const result = await client.call('nodeAdmin_rollbackTo', params);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 adminCmd.command('start-snapshot-upload').description('Start snapshot upload').requiredOption('--location <location>', 'Location').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('nodeAdmin_startSnapshotUpload', [options.location]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 adminCmd.command('get-slash-payloads').description('Get slash payloads').action(async () => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('nodeAdmin_getSlashPayloads', []);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
 });
 adminCmd.command('get-slash-offenses').description('Get slash offenses').option('--round <round>', 'Round', 'current').action(async (options) => {
-  const client = new RpcClient({ rpcUrl: resolveRpcUrl(program.opts().rpcUrl), adminUrl: program.opts().adminUrl, pretty: !program.opts().noPretty });
+  const client = createRpcClient();
   const result = await client.call('nodeAdmin_getSlashOffenses', [options.round]);
-  console.log(client.formatOutput(result, !program.opts().noPretty));
+  outputRpcResult(result);
+});
+
+// Cache commands
+const cacheCmd = program.command('cache').description('On-disk cache of immutable historical responses');
+cacheCmd.command('stats').description('Show cached entries and size per chain and method').action(async () => {
+  const result = new ResponseCache(getCacheDir()).stats();
+  outputResult(result, true);
+});
+cacheCmd.command('clear').description('Remove cached responses').option('--chain <chainId>', 'Only clear entries for this L1 chain id').action(async (options) => {
+  const removed = new ResponseCache(getCacheDir()).clear(options.chain);
+  outputResult({ removed }, true);
+});
+
+// Config commands
+const configCmd = program.command('config').description(`Manage config profiles (user config and project-local ${PROJECT_CONFIG_FILE})`);
+
+// Helper to pick the config file written by set/use
+function configPathFor(local: boolean): string {
+  return local ? findProjectConfigPath() ?? join(process.cwd(), PROJECT_CONFIG_FILE) : getGlobalConfigPath();
+}
+
+configCmd.command('list').description('Show all profiles, the default and active profile, and the config files in use').action(async () => {
+  try {
+    const config = loadConfig();
+    const result = {
+      activeProfile: resolveProfileName(program.opts().profile, config) ?? null,
+      defaultProfile: config.defaultProfile ?? null,
+      files: config.files,
+      profiles: config.profiles,
+    };
+    outputResult(result, true);
+  } catch (error: any) {
+    exitWithError(error);
+  }
+});
+configCmd
+  .command('get')
+  .description('Get a value of the active profile (e.g. rpcUrl, headers.Authorization)')
+  .argument('<key>', 'Profile key')
+  .action(async (key) => {
+    try {
+      const profile = getActiveProfile(program.opts().profile);
+      if (!profile) {
+        throw new ValidationError('No profile selected (use --profile, CAZT_PROFILE or "cazt config use <profile>")');
+      }
+      const value = getProfileValue(profile, key);
+      if (value === undefined) {
+        throw new NotFoundError(`"${key}" is not set in profile "${profile.name}"`);
+      }
+      outputResult(value, program.opts().json || typeof value === 'object');
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+configCmd
+  .command('set')
+  .description('Set a value in a profile (the --profile one, else the active one, else "default"), creating it if needed')
+  .argument('<key>', 'Profile key: rpcUrl, adminUrl, account, format, headers[.<name>], artifactSources[.<name>]')
+  .argument('<value>', 'Value (JSON object for headers/artifactSources)')
+  .option('--local', `Write to the project ${PROJECT_CONFIG_FILE} instead of the user config`, false)
+  .action(async (key, value, options) => {
+    try {
+      const name = resolveProfileName(program.opts().profile) ?? 'default';
+      const path = configPathFor(options.local);
+      setProfileValue(path, name, key, value);
+      console.log(`Set ${key} in profile "${name}" (${path})`);
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+configCmd
+  .command('use')
+  .description('Make a profile the default one')
+  .argument('<profile>', 'Profile name')
+  .option('--local', `Write to the project ${PROJECT_CONFIG_FILE} instead of the user config`, false)
+  .action(async (name, options) => {
+    try {
+      if (!loadConfig().profiles?.[name]) {
+        throw new NotFoundError(`Profile "${name}" not found (create it with "cazt --profile ${name} config set <key> <value>")`);
+      }
+      const path = configPathFor(options.local);
+      useProfile(path, name);
+      console.log(`Default profile: ${name} (${path})`);
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+
+// Network commands
+const networkCmd = program.command('network').description('Registered networks and their pinned chain identity');
+
+// Helper to build the entry stored for a network
+function networkEntry(rpcUrl: string, options: any, current: Partial<NetworkConfig> = {}): NetworkConfig {
+  const entry: NetworkConfig = { ...current, rpcUrl };
+  if (options.admin) {
+    entry.adminUrl = options.admin;
+  }
+  if (options.chainId !== undefined) {
+    entry.chainId = Number(options.chainId);
+  }
+  if (options.rollupVersion !== undefined) {
+    entry.rollupVersion = Number(options.rollupVersion);
+  }
+  if (options.l1Contracts) {
+    entry.l1ContractAddresses = parseJsonOrFile(options.l1Contracts);
+  }
+  return entry;
+}
+
+networkCmd.command('ls').description('List built-in and registered networks').action(async () => {
+  try {
+    const registered = loadConfig().networks ?? {};
+    const builtin = Object.fromEntries(Object.entries(NETWORK_URLS).map(([name, rpcUrl]) => [name, { rpcUrl, builtin: true }]));
+    outputResult({ ...builtin, ...registered }, true);
+  } catch (error: any) {
+    exitWithError(error);
+  }
+});
+networkCmd
+  .command('add')
+  .description('Register a network (name usable wherever a node URL is accepted)')
+  .argument('<name>', 'Network name')
+  .argument('<rpcUrl>', 'Node RPC URL')
+  .option('--admin <url>', 'Admin RPC URL')
+  .option('--chain-id <chainId>', 'Expected L1 chain id')
+  .option('--rollup-version <version>', 'Expected rollup version')
+  .option('--l1-contracts <json>', 'L1 contract addresses (JSON object or @file.json)')
+  .option('--pin', 'Read chain id, rollup version and L1 contract addresses from the node', false)
+  .option('--local', `Write to the project ${PROJECT_CONFIG_FILE} instead of the user config`, false)
+  .action(async (name, rpcUrl, options) => {
+    try {
+      let entry = networkEntry(rpcUrl, options);
+      if (options.pin) {
+        const identity = await fetchNetworkIdentity(createRpcClient({ rpcUrl, cacheDir: undefined }));
+        entry = { ...entry, ...identity };
+      }
+      const path = configPathFor(options.local);
+      setNetwork(path, name, entry);
+      outputResult({ name, ...entry, file: path }, true);
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+networkCmd
+  .command('pin')
+  .description('Pin a network to the chain id, rollup version and L1 contract addresses its node currently reports')
+  .argument('<name>', 'Network name (registered or built-in)')
+  .option('--local', `Write to the project ${PROJECT_CONFIG_FILE} instead of the user config`, false)
+  .action(async (name, options) => {
+    try {
+      const network = getNetwork(name);
+      if (!network) {
+        throw new NotFoundError(`Unknown network "${name}" (see "cazt network ls")`);
+      }
+      const identity = await fetchNetworkIdentity(createRpcClient({ rpcUrl: network.rpcUrl, cacheDir: undefined }));
+      const entry = networkEntry(network.rpcUrl, {}, { ...loadConfig().networks?.[network.name], ...identity });
+      const path = configPathFor(options.local);
+      setNetwork(path, network.name, entry);
+      outputResult({ name: network.name, ...entry, file: path }, true);
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+networkCmd
+  .command('rm')
+  .description('Remove a registered network')
+  .argument('<name>', 'Network name')
+  .option('--local', `Remove from the project ${PROJECT_CONFIG_FILE} instead of the user config`, false)
+  .action(async (name, options) => {
+    const path = configPathFor(options.local);
+    if (!removeNetwork(path, name)) {
+      exitWithError(new NotFoundError(`network "${name}" is not registered in ${path}`));
+    }
+    console.log(`Removed network "${name}" (${path})`);
+  });
+
+// Address book commands
+const labelCmd = program.command('label').description('Address book: name addresses per network (--rpc-url) and use them as @name');
+labelCmd
+  .command('set')
+  .description('Set a label')
+  .argument('<name>', 'Label name')
+  .argument('<address>', 'Address')
+  .action(async (name, address) => {
+    try {
+      setLabel(program.opts().rpcUrl, name, address);
+      console.log(`@${name} = ${address} (${labelNetworkKey(program.opts().rpcUrl)})`);
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+labelCmd
+  .command('rm')
+  .description('Remove a label')
+  .argument('<name>', 'Label name')
+  .action(async (name) => {
+    if (!removeLabel(program.opts().rpcUrl, name)) {
+      exitWithError(new NotFoundError(`label "${name}" not found on network ${labelNetworkKey(program.opts().rpcUrl)}`));
+    }
+    console.log(`Removed @${name} (${labelNetworkKey(program.opts().rpcUrl)})`);
+  });
+labelCmd.command('ls').description('List labels of the network').action(async () => {
+  try {
+    const result = { network: labelNetworkKey(program.opts().rpcUrl), labels: listLabels(program.opts().rpcUrl) };
+    outputResult(result, true);
+  } catch (error: any) {
+    exitWithError(error);
+  }
 });
 
+// Keystore commands
+const keystoreCmd = program.command('keystore').description('Encrypted local keystore of account secret keys, usable with --account (password from CAZT_KEYSTORE_PASSWORD or a prompt)');
+
+// Helper to parse a secret key or salt as a field, "random" generating a new one
+function keystoreField(value: string, name: string): string {
+  if (value === 'random') {
+    return AztecUtilities.fieldRandom();
+  }
+  if (!/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+    throw new ValidationError(`Invalid ${name} "${value}" (expected a 0x-prefixed field value)`);
+  }
+  // Parsed as a number so that short values like the default salt `0x0` are accepted
+  return AztecUtilities.fieldFromBigInt(value);
+}
+
+// Helper to store an account after asking for the new password
+async function storeAccount(name: string, secretKey: string, options: { salt: string; type: string }): Promise<void> {
+  const account = { secretKey, salt: keystoreField(options.salt, 'salt'), type: options.type as AccountType };
+  const path = saveAccount(name, account, await readKeystorePassword('New keystore password: ', true));
+  console.log(`Stored account "${name}" (${account.type}) in ${path}`);
+}
+
+keystoreCmd
+  .command('new')
+  .description('Generate a new random secret key and store it')
+  .argument('<name>', 'Account name')
+  .option('--salt <salt>', 'Account salt (Fr, or "random")', '0x0')
+  .option('--type <type>', `Account type (${ACCOUNT_TYPES.join(', ')})`, 'schnorr')
+  .action(async (name, options) => {
+    try {
+      await storeAccount(name, AztecUtilities.fieldRandom(), options);
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+keystoreCmd
+  .command('import')
+  .description('Store an existing secret key (prompted for, or read from stdin, when --secret-key is not given)')
+  .argument('<name>', 'Account name')
+  .option('--secret-key <key>', 'Secret key (Fr) to import')
+  .option('--salt <salt>', 'Account salt (Fr, or "random")', '0x0')
+  .option('--type <type>', `Account type (${ACCOUNT_TYPES.join(', ')})`, 'schnorr')
+  .action(async (name, options) => {
+    try {
+      const input = options.secretKey || (process.stdin.isTTY ? await promptHidden('Secret key: ') : await readStdin());
+      await storeAccount(name, keystoreField(input.trim(), 'secret key'), options);
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+keystoreCmd.command('list').description('List stored accounts (without secrets)').action(async () => {
+  try {
+    outputResult(listAccounts(), true);
+  } catch (error: any) {
+    exitWithError(error);
+  }
+});
+keystoreCmd
+  .command('export')
+  .description('Decrypt an account and print its secret key, salt and type')
+  .argument('<name>', 'Account name')
+  .action(async (name) => {
+    try {
+      const account = loadAccount(name, await readKeystorePassword(`Password for account "${name}": `));
+      outputResult({ name, ...account }, true);
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+keystoreCmd
+  .command('remove')
+  .description('Delete an account from the keystore')
+  .argument('<name>', 'Account name')
+  .action(async (name) => {
+    try {
+      if (!removeAccount(name)) {
+        throw new NotFoundError(`account "${name}" not found in the keystore`);
+      }
+      console.log(`Removed account "${name}"`);
+    } catch (error: any) {
+      exitWithError(error);
+    }
+  });
+
+// Shell completion
+// Dynamic values for options, on top of the commands and flags taken from the commander tree
+const completionProviders: CompletionProviders = {
+  artifact: () => ['aztec', 'standards'].flatMap((source) => {
+    try {
+      return AztecUtilities.listArtifacts(JSON.stringify({ source })).artifacts.map((artifact: any) => artifact.fullName);
+    } catch {
+      return [];
+    }
+  }),
+  storageSlotName: (values) => {
+    if (!values.artifact) {
+      return [];
+    }
+    // Compiled Noir artifacts only get a storage layout once loaded as contract artifacts
+    const artifact = parseJsonOrFile(values.artifact);
+    return Object.keys(artifact.storageLayout || AztecUtilities.getStorageLayout(JSON.stringify({ artifact })).storageLayout || {});
+  },
+  profile: () => Object.keys(loadConfig().profiles || {}),
+  account: () => listAccounts().map((account) => account.name),
+  ...Object.fromEntries(ADDRESS_OPTIONS.map((key) => [
+    key,
+    (values: Record<string, string>) => Object.keys(listLabels(values.nodeUrl ?? values.rpcUrl ?? program.opts().rpcUrl)).map((label) => `@${label}`),
+  ])),
+};
+
+program
+  .command('completions')
+  .description('Print the shell completion script (e.g. eval "$(cazt completions bash)")')
+  .addArgument(new Argument('<shell>', 'Shell').choices(COMPLETION_SHELLS))
+  .action(async (shell: CompletionShell) => {
+    console.log(completionScript(shell).trimEnd());
+  });
+
+// Called by the completion scripts with the words typed so far (after "--", so flags aren't parsed)
+program
+  .command('__complete', { hidden: true })
+  .argument('[words...]')
+  .allowUnknownOption()
+  .helpOption(false)
+  .action(async (words: string[] = []) => {
+    const candidates = completeWords(program, words, completionProviders);
+    if (candidates.length > 0) {
+      console.log(candidates.join('\n'));
+    }
+  });
+
+// Interactive console
+program
+  .command('console')
+  .description('Interactive console: run commands without the "cazt" prefix, store results in $variables, reuse node clients and wallets')
+  .action(async () => {
+    // Global options given to `cazt console` apply to every command run in it
+    const globals = globalOptions();
+    // Stored results are parsed as JSON: --format only applies to printed results
+    const captureGlobals = globalOptions({ format: undefined, columns: [], select: undefined });
+    sharedClients = new Map();
+    keepConnectionsAlive();
+    await startConsole({
+      run: (words, capture) => runCommandInProcess(words, capture ? captureGlobals : globals, capture),
+      complete: (words) => completeWords(program, words, completionProviders),
+      historyFile: join(getConfigDir(), 'console_history'),
+      pretty: !program.opts().noPretty,
+    });
+    sharedClients = undefined;
+    keepConnectionsAlive(false);
+  });
+
+// Plan runner
+program
+  .command('run')
+  .description('Run a JSON plan of cazt commands (${steps.<id>.<path>} and ${env.NAME} references, assertions) and print a JSON report')
+  .argument('<plan>', 'Plan file')
+  .option('--report <file>', 'Also write the report to this file')
+  .option('--continue-on-error', 'Keep running after a failed step (for every step)', false)
+  .action(async (planFile: string, options) => {
+    // Steps re-parse the command tree, which resets these options
+    const { report: reportFile, continueOnError } = options;
+    let report;
+    try {
+      const plan = loadPlan(planFile);
+      // Steps run with JSON output so their results can be referenced
+      const globals = globalOptions({ json: true, format: undefined, columns: [], select: undefined });
+      sharedClients = new Map();
+      keepConnectionsAlive();
+      report = await runPlan(plan, {
+        run: (words) => runCommandInProcess(words, globals, true),
+        continueOnError,
+      });
+    } catch (error: any) {
+      exitWithError(error);
+    } finally {
+      sharedClients = undefined;
+      keepConnectionsAlive(false);
+    }
+    const output = JSON.stringify(report, null, program.opts().noPretty ? 0 : 2);
+    if (reportFile) {
+      writeFileSync(reportFile, output + '\n');
+    }
+    console.log(output);
+    if (!report.success) {
+      process.exit(1);
+    }
+  });
+
+// Global option values to run in-process commands with
+type GlobalOptions = { key: string; value: any; source: any }[];
+
+// Helper to snapshot the global options (e.g. those given to `cazt console`), to apply them to every command run in-process
+// Overriding the format also drops --human, which stands for --format pretty.
+function globalOptions(overrides: Record<string, any> = {}): GlobalOptions {
+  if ('format' in overrides && !('human' in overrides)) {
+    overrides = { ...overrides, human: undefined };
+  }
+  return program.options.map((option) => {
+    const key = option.attributeName();
+    return key in overrides
+      ? { key, value: overrides[key], source: 'cli' }
+      : { key, value: program.getOptionValue(key), source: program.getOptionValueSource(key) };
+  });
+}
+
+// Helper to run a command through the program in-process (console, plans), capturing its output when asked
+// A command that exits with an error throws CommandExit with the errors it printed.
+async function runCommandInProcess(words: string[], globals: GlobalOptions, capture: boolean): Promise<string | undefined> {
+  if (words[0] === 'console' || words[0] === 'run') {
+    throw new ValidationError(`"${words[0]}" can't be nested`);
+  }
+  // Commander keeps option values between parses: start every command from the globals and the defaults
+  for (const { key, value, source } of globals) {
+    program.setOptionValueWithSource(key, value, source);
+  }
+  resetOptions(program);
+  const output: string[] = [];
+  const errors: string[] = [];
+  const log = console.log;
+  const logError = console.error;
+  const exit = process.exit;
+  if (capture) {
+    console.log = (...args: any[]) => {
+      output.push(format(...args));
+    };
+  }
+  console.error = (...args: any[]) => {
+    errors.push(format(...args));
+    logError(...args);
+  };
+  process.exit = ((code?: number) => {
+    throw new CommandExit(code ?? 0, code ? errors.join('\n') : undefined);
+  }) as typeof process.exit;
+  try {
+    await program.parseAsync(['node', 'cazt', ...words]);
+  } catch (error: any) {
+    // --help exits with 0
+    if (!(error instanceof CommandExit && error.code === 0)) {
+      throw error;
+    }
+  } finally {
+    console.log = log;
+    console.error = logError;
+    process.exit = exit;
+  }
+  return capture ? output.join('\n') : undefined;
+}
+
+// Helper to reset the options of every subcommand to their defaults (as set by commander when adding them)
+function resetOptions(cmd: Command): void {
+  for (const sub of cmd.commands) {
+    for (const option of sub.options) {
+      const positive = option.negate && sub.options.some((o) => o.long === option.long?.replace(/^--no-/, '--'));
+      const value = option.negate && !positive && option.defaultValue === undefined ? true : option.defaultValue;
+      sub.setOptionValueWithSource(option.attributeName(), value, 'default');
+    }
+    resetOptions(sub);
+  }
+}
+
+// Plugins
+// Loaded before the arguments are parsed (see the end of this file)
+let loadedPlugins: LoadedPlugin[] = [];
+
+const pluginsCmd = program.command('plugins').description(`Third-party commands from ${getPluginsDir()} and ${PLUGIN_PACKAGE_PREFIX}* packages`);
+pluginsCmd.command('list').description('List discovered plugins and the commands they added').action(async () => {
+  outputResult(loadedPlugins, true);
+});
+
+// Helper to load plugins with access to the CLI's client, utilities, config resolution and output helpers
+async function registerPlugins(): Promise<void> {
+  loadedPlugins = await loadPlugins({
+    program,
+    createRpcClient,
+    AztecUtilities,
+    outputResult,
+    config: {
+      resolveRpcUrl,
+      resolveAdminUrl,
+      getNetwork,
+      getActiveProfile: () => activeProfile,
+      nodeClientParams,
+    },
+  }, join(__dirname, '..'));
+  for (const plugin of loadedPlugins.filter((p) => p.error)) {
+    console.error(`Warning: plugin ${plugin.name} (${plugin.path}) failed to load: ${plugin.error}`);
+  }
+}
+
+// Mock node command
+program
+  .command('mock-node')
+  .description('Start a local fixture-backed Aztec node JSON-RPC server (node_* and nodeAdmin_*)')
+  .option('--port <port>', 'Port to listen on', '8080')
+  .option('--host <host>', 'Host to bind', '127.0.0.1')
+  .option('--fixtures <dir>', 'Directory of fixtures recorded with --record (<method>/<hash>.json or <method>/default.json)')
+  .option('--state <state>', 'Scripted node state JSON or @file.json (blockNumber, blocks, txReceipts, txEffects, contracts, methods, ...)')
+  .option('--quiet', 'Do not log requests', false)
+  .action(async (options) => {
+    const node = await startMockNode({
+      port: parseInt(options.port),
+      host: options.host,
+      fixtures: options.fixtures,
+      state: options.state ? parseJsonOrFile(options.state) : {},
+      onRequest: options.quiet ? undefined : (method, params, response) => {
+        const outcome = response.error ? `error ${JSON.stringify(response.error)}` : 'ok';
+        console.error(`${method} ${JSON.stringify(params)} -> ${outcome}`);
+      },
+    });
+    console.error(`Mock Aztec node listening on ${node.url} (use it as both --rpc-url and --admin-url)`);
+  });
+
 // Helper to output raw or JSON
 function outputResult(value: string | any, json: boolean = false): void {
-  if (json) {
-    const output = typeof value === 'string' ? { value } : value;
-    console.log(JSON.stringify(output, null, program.opts().noPretty ? 0 : 2));
+  const format = outputFormat() ?? (json ? 'json' : undefined);
+  // Utility results that are plain strings print as { value } in structured formats
+  const output = typeof value === 'string' && format && format !== 'raw' && format !== 'pretty' ? { value } : value;
+  console.log(renderResult(output, renderOptions(json ? 'json' : undefined)));
+}
+
+// Helper to output the result of a node call (JSON unless --format says otherwise)
+function outputRpcResult(result: any): void {
+  console.log(renderResult(result, renderOptions('json')));
+}
+
+// Helper to gather the global output options (--format, --select, --columns, --labels, --annotate)
+function renderOptions(fallback: OutputFormat | undefined): RenderOptions {
+  const opts = program.opts();
+  return {
+    format: outputFormat(),
+    fallback,
+    pretty: !opts.noPretty,
+    columns: parseColumns(opts.columns),
+    select: opts.select,
+    labels: opts.labels ? listLabels(labelsUrl) : undefined,
+    annotations,
+  };
+}
+
+// Helper to report a failed command and exit with the code of its kind (see EXIT_CODES)
+// Under --json the error is printed as { "error": { kind, message, rpcCode, data } } on stderr.
+function exitWithError(error: any, prefix: string = 'Error'): never {
+  const details = classifyError(error);
+  if (program.opts().json || outputFormat() === 'json') {
+    console.error(JSON.stringify({ error: details }));
   } else {
-    console.log(value);
+    console.error(`${prefix}: ${details.message}`);
   }
+  process.exit(EXIT_CODES[details.kind]);
 }
 
 // Hash utilities
@@ -1078,8 +2074,7 @@ program.command('keccak').alias('k').description('Keccak-256 hash').argument('[d
     const result = await AztecUtilities.keccak(input);
     outputResult(`0x${result}`, program.opts().json);
   } catch (error: any) {
-    console.error(`Error: ${error.message}`);
-    process.exit(1);
+    exitWithError(error);
   }
 });
 
@@ -1098,7 +2093,7 @@ program.command('poseidon2').alias('p2').alias('poseidon').description('Poseidon
       // Try parsing as JSON array
       const parsed = JSON.parse(fields);
       if (!Array.isArray(parsed)) {
-        throw new Error('fields must be a JSON array or comma-separated values');
+        throw new ValidationError('fields must be a JSON array or comma-separated values');
       }
       fieldsArray = parsed;
     } else {
@@ -1109,8 +2104,7 @@ program.command('poseidon2').alias('p2').alias('poseidon').description('Poseidon
     const result = await AztecUtilities.poseidon2(JSON.stringify(fieldsArray));
     outputResult(result, program.opts().json);
   } catch (error: any) {
-    console.error(`Error: ${error.message}`);
-    process.exit(1);
+    exitWithError(error);
   }
 });
 
@@ -1123,7 +2117,7 @@ program.command('pedersen').alias('ped').description('Pedersen hash').argument('
       // Try parsing as JSON array
       const parsed = JSON.parse(fields);
       if (!Array.isArray(parsed)) {
-        throw new Error('fields must be a JSON array or comma-separated values');
+        throw new ValidationError('fields must be a JSON array or comma-separated values');
       }
       fieldsArray = parsed;
     } else {
@@ -1139,8 +2133,7 @@ program.command('pedersen').alias('ped').description('Pedersen hash').argument('
     const result = await AztecUtilities.computePedersenHash(params);
     outputResult(result, program.opts().json);
   } catch (error: any) {
-    console.error(`Error: ${error.message}`);
-    process.exit(1);
+    exitWithError(error);
   }
 });
 
@@ -1196,22 +2189,25 @@ program.command('silo-private-log').alias('spl').description('Silo private log t
   outputResult(result, program.opts().json);
 });
 
-program.command('decrypt-private-log').alias('dpl').description('Decrypt a raw private log ciphertext').requiredOption('--ciphertext <ciphertext>', 'Comma-separated field values (e.g., "0x1,0x2,...") or JSON array or @file.json').requiredOption('--recipient-address <address>', 'Complete address of the recipient').requiredOption('--recipient-secret-key <key>', 'Secret key (Fr) of the recipient').action(async (options) => {
+program.command('decrypt-private-log').alias('dpl').description('Decrypt a raw private log ciphertext').requiredOption('--ciphertext <ciphertext>', 'Comma-separated field values (e.g., "0x1,0x2,...") or JSON array or @file.json').requiredOption('--recipient-address <address>', 'Complete address of the recipient').option('--recipient-secret-key <key>', 'Secret key (Fr) of the recipient').option('--account <name>', 'Keystore account holding the recipient secret key (instead of --recipient-secret-key)').action(async (options) => {
   try {
+    if (!options.recipientSecretKey) {
+      throw new ValidationError('--recipient-secret-key or --account is required');
+    }
     let ciphertext: string[];
     
     // Check if it's a file reference
     if (options.ciphertext.startsWith('@')) {
       const parsed = parseJsonOrFile(options.ciphertext);
       if (!Array.isArray(parsed)) {
-        throw new Error('ciphertext file must contain a JSON array');
+        throw new ValidationError('ciphertext file must contain a JSON array');
       }
       ciphertext = parsed;
     } else if (options.ciphertext.trim().startsWith('[')) {
       // Try parsing as JSON array
       const parsed = JSON.parse(options.ciphertext);
       if (!Array.isArray(parsed)) {
-        throw new Error('ciphertext must be a JSON array or comma-separated values');
+        throw new ValidationError('ciphertext must be a JSON array or comma-separated values');
       }
       ciphertext = parsed;
     } else {
@@ -1227,10 +2223,9 @@ program.command('decrypt-private-log').alias('dpl').description('Decrypt a raw p
     
     const result = await AztecUtilities.decryptRawPrivateLog(params);
     // Array output - always JSON
-    console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+    outputResult(result, true);
   } catch (error: any) {
-    console.error(`Error: ${error.message}`);
-    process.exit(1);
+    exitWithError(error);
   }
 });
 
@@ -1263,7 +2258,7 @@ program.command('address-zero').alias('az').description('Prints the zero address
 program.command('address-validate').alias('av').description('Validate Aztec address format').argument('<address>', 'Address to validate').action(async (address: string) => {
   const result = AztecUtilities.addressValidate(address);
   // This returns an object, so always output as JSON
-  console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+  outputResult(result, true);
 });
 
 program.command('public-data-slot').alias('pds').description('Compute public data tree leaf slot').requiredOption('--contract <contract>', 'Contract address').requiredOption('--slot <slot>', 'Storage slot').action(async (options) => {
@@ -1285,7 +2280,7 @@ program.command('address-is-valid').alias('aiv').description('Check if address i
 program.command('address-to-point').alias('atp').description('Convert address to Grumpkin point').argument('<address>', 'Address to convert').action(async (address: string) => {
   const result = await AztecUtilities.addressToPoint(address);
   // Object output - always JSON
-  console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+  outputResult(result, true);
 });
 
 program.command('address-from-field').alias('aff').description('Create address from field').argument('<field>', 'Field value').action(async (field: string) => {
@@ -1338,13 +2333,13 @@ program.command('note-selector').alias('ns').description('Compute note selector'
 program.command('abi-encode').alias('ae').description('ABI encode function arguments').argument('<params>', 'JSON object with abi and args').action(async (params: string) => {
   const result = AztecUtilities.abiEncode(params);
   // Array output - always JSON
-  console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+  outputResult(result, true);
 });
 
 program.command('abi-decode').alias('ad').description('ABI decode fields').argument('<params>', 'JSON object with types and fields').action(async (params: string) => {
   const result = AztecUtilities.abiDecode(params);
   // Decoded output - always JSON
-  console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+  outputResult(result, true);
 });
 
 program.command('decode-function-signature').alias('dfs').description('Decode function signature').argument('<params>', 'JSON object with name and parameters').action(async (params: string) => {
@@ -1399,7 +2394,7 @@ program.command('artifact-hash-preimage').alias('ahp').description('Compute arti
   const artifactObj = parseJsonOrFile(artifact);
   const result = await AztecUtilities.artifactHashPreimage(JSON.stringify(artifactObj));
   // Object output - always JSON
-  console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+  outputResult(result, true);
 });
 
 program.command('artifact-metadata-hash').alias('amh').description('Compute artifact metadata hash').argument('<artifact>', 'Contract artifact JSON file path, artifact name (e.g., "aztec:Token"), or JSON string').action(async (artifact: string) => {
@@ -1423,7 +2418,7 @@ program.command('function-metadata-hash').alias('fmh').description('Compute func
 program.command('buffer-as-fields').alias('baf').description('Convert buffer to fields').argument('<params>', 'JSON object with buffer (hex) and targetLength').action(async (params: string) => {
   const result = AztecUtilities.bufferAsFields(params);
   // Array output - always JSON
-  console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+  outputResult(result, true);
 });
 
 // ABI type utilities
@@ -1461,13 +2456,13 @@ program.command('is-bounded-vec-struct').alias('ibvs').description('Check if ABI
 program.command('load-contract-artifact').alias('lca').description('Load contract artifact from Noir compiled contract').argument('<noir_contract>', 'Noir compiled contract JSON file path, artifact name (e.g., "aztec:Token"), or JSON string').action(async (noirContract: string) => {
   const contractObj = parseJsonOrFile(noirContract);
   const result = AztecUtilities.loadContractArtifact(JSON.stringify(contractObj));
-  console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+  outputResult(result, true);
 });
 
 program.command('load-contract-artifact-for-public').alias('lcafp').description('Load contract artifact for public functions').argument('<noir_contract>', 'Noir compiled contract JSON file path, artifact name (e.g., "aztec:Token"), or JSON string').action(async (noirContract: string) => {
   const contractObj = parseJsonOrFile(noirContract);
   const result = AztecUtilities.loadContractArtifactForPublic(JSON.stringify(contractObj));
-  console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+  outputResult(result, true);
 });
 
 program.command('contract-artifact-to-buffer').alias('catb').description('Serialize contract artifact to buffer').argument('<artifact>', 'Contract artifact JSON file path, artifact name (e.g., "aztec:Token"), or JSON string').action(async (artifact: string) => {
@@ -1478,7 +2473,7 @@ program.command('contract-artifact-to-buffer').alias('catb').description('Serial
 
 program.command('contract-artifact-from-buffer').alias('cafb').description('Deserialize contract artifact from buffer').argument('<buffer>', 'Hex buffer').action(async (buffer: string) => {
   const result = AztecUtilities.contractArtifactFromBuffer(buffer);
-  console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+  outputResult(result, true);
 });
 
 // EthAddress utilities
@@ -1494,7 +2489,7 @@ program.command('eth-address-random').alias('ear').description('Generate random
 
 program.command('eth-address-validate').alias('eav').description('Validate Ethereum address format').argument('<address>', 'Address to validate').action(async (address: string) => {
   const result = AztecUtilities.ethAddressValidate(address);
-  console.log(JSON.stringify(result, null, program.opts().noPretty ? 0 : 2));
+  outputResult(result, true);
 });
 
 program.command('eth-address-from-field').alias('eaff').description('Create Ethereum address from field').argument('<field>', 'Field value').action(async (field: string) => {
@@ -1572,6 +2567,8 @@ const isMainModule = import.meta.url === `file://${process.argv[1]}` ||
                      (typeof process !== 'undefined' && process.env.NODE_ENV !== 'test' && !process.argv[1]?.includes('jest'));
 
 if (isMainModule) {
-  program.parse();
+  registerPlugins()
+    .then(() => program.parseAsync())
+    .catch((error) => exitWithError(error));
 }
 
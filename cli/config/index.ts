@@ -1,3 +1,6 @@
+import { homedir } from 'os';
+import { join } from 'path';
+
 /**
  * Configuration for CAZT CLI
  */
@@ -10,6 +13,55 @@ export const NETWORK_URLS: Record<string, string> = {
   testnet: 'https://aztec-testnet-fullnode.zkv.xyz',
 };
 
+/**
+ * A named network: node URLs plus the chain identity state-changing commands are pinned to
+ */
+export interface NetworkConfig {
+  rpcUrl: string;
+  adminUrl?: string;
+  /** Expected L1 chain id (node_getChainId) */
+  chainId?: number;
+  /** Expected rollup version (node_getVersion) */
+  rollupVersion?: number;
+  /** L1 contract addresses of the deployment (the rollup address is checked like chainId and rollupVersion) */
+  l1ContractAddresses?: Record<string, string>;
+}
+
+/**
+ * User-registered networks (from the config files), consulted before the built-in shortcuts
+ */
+const userNetworks: Record<string, NetworkConfig> = {};
+
+export function registerNetworks(networks: Record<string, NetworkConfig> = {}): void {
+  Object.assign(userNetworks, networks);
+}
+
+function findByName(networks: Record<string, NetworkConfig>, name: string): string | undefined {
+  return Object.keys(networks).find((n) => n.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Look up a network by name, or by its node URL
+ */
+export function getNetwork(nameOrUrl: string | undefined): (NetworkConfig & { name: string }) | undefined {
+  if (!nameOrUrl) {
+    return undefined;
+  }
+  const networks: Record<string, NetworkConfig> = {
+    ...Object.fromEntries(Object.entries(NETWORK_URLS).map(([name, rpcUrl]) => [name, { rpcUrl }])),
+    ...userNetworks,
+  };
+  const byName = findByName(userNetworks, nameOrUrl) ?? findByName(networks, nameOrUrl);
+  if (byName) {
+    return { name: byName, ...networks[byName] };
+  }
+  // Registered networks win over built-in shortcuts sharing the same URL
+  const normalized = nameOrUrl.replace(/\/+$/, '');
+  const name = [...Object.keys(userNetworks), ...Object.keys(NETWORK_URLS)]
+    .find((n) => networks[n].rpcUrl.replace(/\/+$/, '') === normalized);
+  return name ? { name, ...networks[name] } : undefined;
+}
+
 /**
  * Default URLs
  */
@@ -28,17 +80,35 @@ export const ENV_VARS = {
   RPC_URL: 'CAZT_RPC_URL',
   /** Environment variable for Admin URL */
   ADMIN_URL: 'CAZT_ADMIN_URL',
+  /** Environment variable for extra HTTP headers sent to the node (suffix with _<NETWORK> for per-network headers) */
+  RPC_HEADERS: 'CAZT_RPC_HEADERS',
+  /** Environment variable for the response cache directory */
+  CACHE_DIR: 'CAZT_CACHE_DIR',
+  /** Environment variable for the active config profile */
+  PROFILE: 'CAZT_PROFILE',
+  /** Environment variable for the user config directory */
+  CONFIG_DIR: 'CAZT_CONFIG_DIR',
+  /** Environment variable for the keystore password (instead of prompting) */
+  KEYSTORE_PASSWORD: 'CAZT_KEYSTORE_PASSWORD',
+  /** Environment variable for the local plugins directory */
+  PLUGINS_DIR: 'CAZT_PLUGINS_DIR',
+  /** Environment variable that also loads plugins from the working directory's node_modules (set to 1) */
+  PROJECT_PLUGINS: 'CAZT_PROJECT_PLUGINS',
 } as const;
 
 /**
- * Resolve RPC URL - converts network shortcuts (devnet, testnet) to actual URLs
+ * Resolve RPC URL - converts network names (registered networks, devnet, testnet) to actual URLs
  * Falls back to environment variable or default localhost URL
  */
 export function resolveRpcUrl(url: string | undefined): string {
   if (!url) {
     return process.env[ENV_VARS.RPC_URL] || DEFAULT_URLS.RPC;
   }
-  // Check if it's a network shortcut
+  // Check if it's a registered network or a network shortcut
+  const registered = findByName(userNetworks, url);
+  if (registered) {
+    return userNetworks[registered].rpcUrl;
+  }
   const lowerUrl = url.toLowerCase();
   if (NETWORK_URLS[lowerUrl]) {
     return NETWORK_URLS[lowerUrl];
@@ -64,3 +134,63 @@ export function getDefaultNodeUrl(): string {
   return process.env[ENV_VARS.RPC_URL] || DEFAULT_URLS.RPC;
 }
 
+
+/**
+ * Get the response cache directory (CAZT_CACHE_DIR, $XDG_CACHE_HOME/cazt or ~/.cache/cazt)
+ */
+export function getCacheDir(): string {
+  if (process.env[ENV_VARS.CACHE_DIR]) {
+    return process.env[ENV_VARS.CACHE_DIR] as string;
+  }
+  return join(process.env.XDG_CACHE_HOME || join(homedir(), '.cache'), 'cazt');
+}
+
+/**
+ * Find the network name for a URL or network name (e.g. "devnet" or its resolved URL)
+ */
+export function networkNameForUrl(url: string | undefined): string | undefined {
+  return getNetwork(url)?.name;
+}
+
+/**
+ * Parse HTTP headers from a JSON object string or from "Name: Value" entries separated by newlines or ";"
+ */
+export function parseHeaders(input: string | string[] | undefined): Record<string, string> {
+  if (!input) {
+    return {};
+  }
+  const entries = Array.isArray(input) ? input : [input];
+  const headers: Record<string, string> = {};
+  for (const entry of entries) {
+    const trimmed = entry.trim();
+    if (trimmed.startsWith('{')) {
+      const parsed = JSON.parse(trimmed);
+      for (const [name, value] of Object.entries(parsed)) {
+        headers[name] = String(value);
+      }
+      continue;
+    }
+    for (const line of trimmed.split(/[\n;]/)) {
+      if (line.trim().length === 0) continue;
+      const separator = line.indexOf(':');
+      if (separator <= 0) {
+        throw new Error(`Invalid header "${line.trim()}" (expected "Name: Value")`);
+      }
+      headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * Resolve the extra HTTP headers for requests to a node
+ * Precedence (lowest to highest): profile headers, CAZT_RPC_HEADERS, CAZT_RPC_HEADERS_<NETWORK>, --header flags
+ */
+export function resolveHeaders(cliHeaders: string[] | undefined, url: string | undefined, profileHeaders: Record<string, string> = {}): Record<string, string> {
+  const headers = { ...profileHeaders, ...parseHeaders(process.env[ENV_VARS.RPC_HEADERS]) };
+  const network = networkNameForUrl(url);
+  if (network) {
+    Object.assign(headers, parseHeaders(process.env[`${ENV_VARS.RPC_HEADERS}_${network.toUpperCase()}`]));
+  }
+  return Object.assign(headers, parseHeaders(cliHeaders));
+}
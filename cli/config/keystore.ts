@@ -0,0 +1,225 @@
+import { join } from 'path';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import * as readline from 'readline';
+import { Writable } from 'stream';
+import { ENV_VARS } from './index.js';
+import { getConfigDir } from './profiles.js';
+import { NotFoundError } from '../utils/errors.js';
+
+/**
+ * Encrypted local keystore: one file per account in `<config dir>/keystore/<name>.json`
+ * The secret key and salt are encrypted with a key derived from the password (scrypt, then AES-256-GCM).
+ */
+
+/** Account contract types the keystore can hold (the ones deploy/notes can create) */
+export const ACCOUNT_TYPES = ['schnorr'] as const;
+export type AccountType = typeof ACCOUNT_TYPES[number];
+
+/** Decrypted keystore entry */
+export interface KeystoreAccount {
+  /** Account secret key (Fr) */
+  secretKey: string;
+  /** Account salt (Fr) */
+  salt: string;
+  type: AccountType;
+}
+
+export interface ScryptParams {
+  n: number;
+  r: number;
+  p: number;
+}
+
+/** On-disk format of a keystore entry */
+export interface KeystoreFile {
+  version: 1;
+  name: string;
+  type: AccountType;
+  createdAt: string;
+  crypto: {
+    kdf: 'scrypt';
+    kdfparams: ScryptParams & { salt: string };
+    cipher: 'aes-256-gcm';
+    iv: string;
+    tag: string;
+    ciphertext: string;
+  };
+}
+
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = { n: 2 ** 16, r: 8, p: 1 };
+
+const NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+export function getKeystoreDir(): string {
+  return join(getConfigDir(), 'keystore');
+}
+
+function keystorePath(name: string): string {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid account name "${name}" (use letters, digits, "_", "-" and ".")`);
+  }
+  return join(getKeystoreDir(), `${name}.json`);
+}
+
+function deriveKey(password: string, salt: Buffer, params: ScryptParams): Buffer {
+  // scrypt needs 128 * N * r bytes, above node's 32MB default for the default params
+  return scryptSync(password, salt, 32, { N: params.n, r: params.r, p: params.p, maxmem: 256 * params.n * params.r });
+}
+
+/**
+ * Encrypt the secret parts of an account (secret key and salt) with a password
+ */
+export function encryptAccount(name: string, account: KeystoreAccount, password: string, params: ScryptParams = DEFAULT_SCRYPT_PARAMS): KeystoreFile {
+  const kdfSalt = randomBytes(32);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(password, kdfSalt, params), iv);
+  const plaintext = JSON.stringify({ secretKey: account.secretKey, salt: account.salt });
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return {
+    version: 1,
+    name,
+    type: account.type,
+    createdAt: new Date().toISOString(),
+    crypto: {
+      kdf: 'scrypt',
+      kdfparams: { ...params, salt: kdfSalt.toString('hex') },
+      cipher: 'aes-256-gcm',
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+      ciphertext: ciphertext.toString('hex'),
+    },
+  };
+}
+
+/**
+ * Decrypt a keystore entry; throws on a wrong password (or a tampered file)
+ */
+export function decryptAccount(file: KeystoreFile, password: string): KeystoreAccount {
+  const { kdfparams, iv, tag, ciphertext } = file.crypto;
+  const decipher = createDecipheriv('aes-256-gcm', deriveKey(password, Buffer.from(kdfparams.salt, 'hex'), kdfparams), Buffer.from(iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(tag, 'hex'));
+  let plaintext: string;
+  try {
+    plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, 'hex')), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new Error(`Wrong password for account "${file.name}"`);
+  }
+  const { secretKey, salt } = JSON.parse(plaintext);
+  return { secretKey, salt, type: file.type };
+}
+
+function readKeystoreFile(name: string): KeystoreFile {
+  const path = keystorePath(name);
+  if (!existsSync(path)) {
+    throw new NotFoundError(`Account "${name}" not found in the keystore (see "cazt keystore list")`);
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid keystore file ${path}: ${error.message}`);
+  }
+}
+
+/**
+ * Store a new account; refuses to overwrite an existing one
+ */
+export function saveAccount(name: string, account: KeystoreAccount, password: string, params?: ScryptParams): string {
+  const path = keystorePath(name);
+  if (!ACCOUNT_TYPES.includes(account.type)) {
+    throw new Error(`Unsupported account type "${account.type}" (expected one of ${ACCOUNT_TYPES.join(', ')})`);
+  }
+  if (!password) {
+    throw new Error('The keystore password must not be empty');
+  }
+  if (existsSync(path)) {
+    throw new Error(`Account "${name}" already exists in the keystore`);
+  }
+  mkdirSync(getKeystoreDir(), { recursive: true, mode: 0o700 });
+  writeFileSync(path, JSON.stringify(encryptAccount(name, account, password, params), null, 2) + '\n', { mode: 0o600 });
+  return path;
+}
+
+export function loadAccount(name: string, password: string): KeystoreAccount {
+  return decryptAccount(readKeystoreFile(name), password);
+}
+
+/**
+ * Accounts in the keystore, without their secrets
+ */
+export function listAccounts(): { name: string; type: AccountType; createdAt: string }[] {
+  const dir = getKeystoreDir();
+  if (!existsSync(dir)) {
+    return [];
+  }
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => {
+      const { name, type, createdAt } = readKeystoreFile(file.slice(0, -'.json'.length));
+      return { name, type, createdAt };
+    });
+}
+
+/**
+ * Remove an account; returns false when it doesn't exist
+ */
+export function removeAccount(name: string): boolean {
+  const path = keystorePath(name);
+  if (!existsSync(path)) {
+    return false;
+  }
+  rmSync(path);
+  return true;
+}
+
+/**
+ * Ask for a value on the terminal without echoing it
+ */
+export function promptHidden(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    return Promise.reject(new Error(`Cannot prompt for "${question.replace(/:\s*$/, '')}": stdin is not a terminal`));
+  }
+  return new Promise((resolve, reject) => {
+    // readline echoes the typed keys to its output: pass the question through, then drop everything
+    let muted = false;
+    const output = new Writable({
+      write(chunk, encoding, callback) {
+        if (!muted) {
+          process.stderr.write(chunk, encoding);
+        }
+        callback();
+      },
+    });
+    const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+    rl.on('SIGINT', () => {
+      rl.close();
+      process.stderr.write('\n');
+      reject(new Error('Cancelled'));
+    });
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stderr.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+/**
+ * Keystore password from CAZT_KEYSTORE_PASSWORD, else prompted for (twice when `confirm` is set)
+ */
+export async function readKeystorePassword(question: string = 'Keystore password: ', confirm: boolean = false): Promise<string> {
+  const fromEnv = process.env[ENV_VARS.KEYSTORE_PASSWORD];
+  if (fromEnv !== undefined) {
+    return fromEnv;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error(`No keystore password: set ${ENV_VARS.KEYSTORE_PASSWORD} or run in a terminal`);
+  }
+  const password = await promptHidden(question);
+  if (confirm && (await promptHidden('Confirm password: ')) !== password) {
+    throw new Error('Passwords do not match');
+  }
+  return password;
+}
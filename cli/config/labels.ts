@@ -0,0 +1,111 @@
+import { join } from 'path';
+import { existsSync, readFileSync } from 'fs';
+import { getNetwork } from './index.js';
+import { getConfigDir, writeConfigFile } from './profiles.js';
+import { NotFoundError } from '../utils/errors.js';
+
+/**
+ * Address book: label -> address, per network
+ * Stored in `<config dir>/labels.json` as `{ "<network>": { "<label>": "<address>" } }`.
+ */
+export type AddressBook = Record<string, Record<string, string>>;
+
+const LABEL_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+
+export function getLabelsPath(): string {
+  return join(getConfigDir(), 'labels.json');
+}
+
+/**
+ * Key labels are stored under: the network name when the URL belongs to a known network, else the URL itself
+ */
+export function labelNetworkKey(url: string): string {
+  return getNetwork(url)?.name ?? url.replace(/\/+$/, '');
+}
+
+function readAddressBook(): AddressBook {
+  const path = getLabelsPath();
+  if (!existsSync(path)) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid address book ${path}: ${error.message}`);
+  }
+}
+
+/**
+ * Labels of a network (label -> address)
+ */
+export function listLabels(url: string): Record<string, string> {
+  return readAddressBook()[labelNetworkKey(url)] ?? {};
+}
+
+export function setLabel(url: string, label: string, address: string): void {
+  if (!LABEL_PATTERN.test(label)) {
+    throw new Error(`Invalid label "${label}" (use letters, digits, "_", "-" and ".")`);
+  }
+  if (!ADDRESS_PATTERN.test(address)) {
+    throw new Error(`Invalid address "${address}" (expected 0x-prefixed hex)`);
+  }
+  const book = readAddressBook();
+  const key = labelNetworkKey(url);
+  book[key] = { ...book[key], [label]: address };
+  writeConfigFile(getLabelsPath(), book);
+}
+
+/**
+ * Remove a label; returns false when it doesn't exist
+ */
+export function removeLabel(url: string, label: string): boolean {
+  const book = readAddressBook();
+  const key = labelNetworkKey(url);
+  if (!book[key]?.[label]) {
+    return false;
+  }
+  delete book[key][label];
+  writeConfigFile(getLabelsPath(), book);
+  return true;
+}
+
+/**
+ * Resolve `@label` to its address on a network; any other value is returned unchanged
+ */
+export function resolveAddressLabel(value: string, url: string): string {
+  if (typeof value !== 'string' || !value.startsWith('@')) {
+    return value;
+  }
+  const label = value.slice(1);
+  const address = listLabels(url)[label];
+  if (!address) {
+    throw new NotFoundError(`Unknown label "${value}" on network ${labelNetworkKey(url)} (see "cazt label ls")`);
+  }
+  return address;
+}
+
+/**
+ * Labels of the addresses that appear anywhere in a value (address -> label)
+ * Addresses are compared as field values, so zero-padding and case don't matter.
+ */
+export function findLabels(value: any, labels: Record<string, string>): Record<string, string> {
+  const byAddress = new Map(Object.entries(labels).map(([label, address]) => [BigInt(address).toString(), label]));
+  const found: Record<string, string> = {};
+  const visit = (item: any) => {
+    if (typeof item === 'string') {
+      if (ADDRESS_PATTERN.test(item)) {
+        const label = byAddress.get(BigInt(item).toString());
+        if (label) {
+          found[item] = label;
+        }
+      }
+    } else if (Array.isArray(item)) {
+      item.forEach(visit);
+    } else if (item && typeof item === 'object') {
+      Object.values(item).forEach(visit);
+    }
+  };
+  visit(value);
+  return found;
+}
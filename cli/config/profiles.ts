@@ -0,0 +1,246 @@
+import { homedir } from 'os';
+import { dirname, join, resolve, isAbsolute } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { ENV_VARS, NetworkConfig } from './index.js';
+import { NotFoundError } from '../utils/errors.js';
+import { OUTPUT_FORMATS, OutputFormat } from '../utils/format.js';
+
+/**
+ * Named set of defaults applied to every command
+ */
+export interface Profile {
+  /** Node RPC URL or network shortcut */
+  rpcUrl?: string;
+  /** Node admin URL */
+  adminUrl?: string;
+  /** Extra artifact sources by name, usable as `<name>:ContractName` (relative dirs resolve against the config file) */
+  artifactSources?: Record<string, string>;
+  /** Default account: a secret key for `deploy *` and `notes fetch`, or a keystore account name (see `cazt keystore`) */
+  account?: string;
+  /** Default for `--format` (json, raw, table, yaml, csv, ndjson or pretty) */
+  format?: OutputFormat;
+  /** Extra HTTP headers sent to the node and admin endpoints */
+  headers?: Record<string, string>;
+}
+
+export interface ConfigFile {
+  /** Profile used when neither --profile nor CAZT_PROFILE is given */
+  defaultProfile?: string;
+  profiles?: Record<string, Profile>;
+  /** User-registered networks by name */
+  networks?: Record<string, NetworkConfig>;
+}
+
+/**
+ * Accepted profile keys and how `config set` parses their values
+ */
+export const PROFILE_KEYS: Record<keyof Profile, 'string' | 'format' | 'object'> = {
+  rpcUrl: 'string',
+  adminUrl: 'string',
+  artifactSources: 'object',
+  account: 'string',
+  format: 'format',
+  headers: 'object',
+};
+
+/** Name of the project-local config file, looked up from the working directory upwards */
+export const PROJECT_CONFIG_FILE = '.cazt.json';
+
+/**
+ * Get the user config directory (CAZT_CONFIG_DIR, $XDG_CONFIG_HOME/cazt or ~/.config/cazt)
+ */
+export function getConfigDir(): string {
+  if (process.env[ENV_VARS.CONFIG_DIR]) {
+    return process.env[ENV_VARS.CONFIG_DIR] as string;
+  }
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), 'cazt');
+}
+
+export function getGlobalConfigPath(): string {
+  return join(getConfigDir(), 'config.json');
+}
+
+/**
+ * Find the nearest .cazt.json from `cwd` upwards
+ */
+export function findProjectConfigPath(cwd: string = process.cwd()): string | undefined {
+  let dir = resolve(cwd);
+  for (;;) {
+    const candidate = join(dir, PROJECT_CONFIG_FILE);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+export function readConfigFile(path: string): ConfigFile {
+  if (!existsSync(path)) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid config file ${path}: ${error.message}`);
+  }
+}
+
+export function writeConfigFile(path: string, config: ConfigFile): void {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(config, null, 2) + '\n');
+}
+
+/**
+ * Resolve relative artifact source directories against the directory of the file that declared them
+ */
+function withResolvedPaths(profile: Profile, configPath: string): Profile {
+  if (!profile.artifactSources) {
+    return profile;
+  }
+  const artifactSources = Object.fromEntries(
+    Object.entries(profile.artifactSources).map(([name, dir]) => [name, isAbsolute(dir) ? dir : resolve(dirname(configPath), dir)]),
+  );
+  return { ...profile, artifactSources };
+}
+
+/**
+ * Merged view of the user config and the project config (project settings win, per profile key)
+ */
+export function loadConfig(cwd: string = process.cwd()): ConfigFile & { files: string[] } {
+  const paths = [getGlobalConfigPath(), findProjectConfigPath(cwd)].filter((p): p is string => !!p && existsSync(p));
+  const merged: ConfigFile & { files: string[] } = { profiles: {}, networks: {}, files: paths };
+  for (const path of paths) {
+    const config = readConfigFile(path);
+    if (config.defaultProfile) {
+      merged.defaultProfile = config.defaultProfile;
+    }
+    Object.assign(merged.networks!, config.networks);
+    for (const [name, profile] of Object.entries(config.profiles || {})) {
+      const resolved = withResolvedPaths(profile, path);
+      const current = merged.profiles![name] || {};
+      merged.profiles![name] = {
+        ...current,
+        ...resolved,
+        // Map-valued keys are merged rather than replaced
+        headers: resolved.headers || current.headers ? { ...current.headers, ...resolved.headers } : undefined,
+        artifactSources: resolved.artifactSources || current.artifactSources
+          ? { ...current.artifactSources, ...resolved.artifactSources }
+          : undefined,
+      };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Name of the active profile: --profile, then CAZT_PROFILE, then the configured default
+ */
+export function resolveProfileName(cliProfile: string | undefined, config: ConfigFile = loadConfig()): string | undefined {
+  return cliProfile || process.env[ENV_VARS.PROFILE] || config.defaultProfile;
+}
+
+/**
+ * Load the active profile; throws when a profile is selected but not defined in any config file
+ */
+export function getActiveProfile(cliProfile: string | undefined, config: ConfigFile = loadConfig()): (Profile & { name: string }) | undefined {
+  const name = resolveProfileName(cliProfile, config);
+  if (!name) {
+    return undefined;
+  }
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    const known = Object.keys(config.profiles || {});
+    throw new NotFoundError(`Profile "${name}" not found${known.length ? ` (available: ${known.join(', ')})` : ''}`);
+  }
+  return { name, ...profile };
+}
+
+/**
+ * Parse a `config set` value for a profile key
+ * Object keys take JSON, or `Name: Value` entries for headers via `config set headers.Name value`.
+ */
+export function parseProfileValue(key: string, value: string): any {
+  const [root, ...rest] = key.split('.');
+  const kind = PROFILE_KEYS[root as keyof Profile];
+  if (!kind) {
+    throw new Error(`Unknown config key "${root}" (expected one of ${Object.keys(PROFILE_KEYS).join(', ')})`);
+  }
+  if (kind === 'object' && rest.length === 0) {
+    try {
+      const parsed = JSON.parse(value);
+      if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new Error();
+      }
+      return parsed;
+    } catch {
+      throw new Error(`"${root}" must be a JSON object, or set a single entry with "${root}.<name>"`);
+    }
+  }
+  if (kind !== 'object' && rest.length > 0) {
+    throw new Error(`"${root}" has no nested keys`);
+  }
+  if (kind === 'format' && !(OUTPUT_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(`Invalid format "${value}" (expected one of ${OUTPUT_FORMATS.join(', ')})`);
+  }
+  return value;
+}
+
+/**
+ * Read a (possibly dotted, e.g. `headers.Authorization`) key from a profile
+ */
+export function getProfileValue(profile: Profile, key: string): any {
+  return key.split('.').reduce((value: any, part) => (value === undefined || value === null ? undefined : value[part]), profile);
+}
+
+/**
+ * Set a (possibly dotted) key of a profile in a config file, creating the profile if needed
+ */
+export function setProfileValue(path: string, profileName: string, key: string, value: string): void {
+  const parsed = parseProfileValue(key, value);
+  const config = readConfigFile(path);
+  config.profiles = config.profiles || {};
+  const profile: any = config.profiles[profileName] || {};
+  const [root, entry] = key.split(/\.(.+)/);
+  if (entry) {
+    profile[root] = { ...(profile[root] || {}), [entry]: parsed };
+  } else {
+    profile[root] = parsed;
+  }
+  config.profiles[profileName] = profile;
+  writeConfigFile(path, config);
+}
+
+/**
+ * Make a profile the default one in a config file
+ */
+export function useProfile(path: string, profileName: string): void {
+  const config = readConfigFile(path);
+  config.defaultProfile = profileName;
+  writeConfigFile(path, config);
+}
+
+/**
+ * Register (or replace) a network in a config file
+ */
+export function setNetwork(path: string, name: string, network: NetworkConfig): void {
+  const config = readConfigFile(path);
+  config.networks = { ...config.networks, [name]: network };
+  writeConfigFile(path, config);
+}
+
+/**
+ * Remove a network from a config file; returns false when it wasn't registered there
+ */
+export function removeNetwork(path: string, name: string): boolean {
+  const config = readConfigFile(path);
+  if (!config.networks?.[name]) {
+    return false;
+  }
+  delete config.networks[name];
+  writeConfigFile(path, config);
+  return true;
+}
@@ -1,4 +1,33 @@
 // Export utilities and types for library use
-export { RpcClient, parseJsonOrFile } from './utils/rpc.js';
+export { RpcClient, parseJsonOrFile, parseBatchCalls } from './utils/rpc.js';
+export type { RpcCall, RpcBatchEntry } from './utils/rpc.js';
+export {
+  RpcError,
+  TransportError,
+  TimeoutError,
+  ValidationError,
+  NotFoundError,
+  RevertedTxError,
+  NetworkMismatchError,
+  EXIT_CODES,
+  classifyError,
+} from './utils/errors.js';
+export type { ErrorKind, ErrorDetails } from './utils/errors.js';
 export { AztecUtilities } from './utils/index.js';
 
+export { startMockNode } from './utils/mock-node.js';
+export type { MockNode, MockNodeOptions, MockNodeState } from './utils/mock-node.js';
+
+export { METHODS, validateParams } from './utils/methods.js';
+export type { MethodSpec, ParamSpec, ParamType } from './utils/methods.js';
+
+export { Progress } from './utils/progress.js';
+
+export { OUTPUT_FORMATS, formatValue, renderResult, flatten } from './utils/format.js';
+export type { OutputFormat, FormatOptions, RenderOptions } from './utils/format.js';
+export { parsePath, getPath, selectPath } from './utils/path.js';
+export { buildAnnotations, findAnnotations, describeAnnotation } from './utils/annotate.js';
+export type { AddressAnnotation, Annotations } from './utils/annotate.js';
+
+export { PLUGIN_PACKAGE_PREFIX } from './utils/plugins.js';
+export type { PluginContext, PluginRegister, LoadedPlugin } from './utils/plugins.js';
@@ -0,0 +1,181 @@
+import { dirname, join } from 'path';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { ArtifactUtils } from './artifact.js';
+import type { RpcClient } from './rpc.js';
+
+/**
+ * Address annotations (`--annotate`): protocol contract names, address book labels and the names of known
+ * contract classes (bundled `aztec:` artifacts), attached to the addresses and class ids found in a result
+ *
+ * Only values under address-like keys (`address`, `contractAddress`, `deployer`, `currentContractClassId`, ...)
+ * are annotated: protocol contracts live at small addresses that other fields (versions, counters) share.
+ */
+
+export interface AddressAnnotation {
+  /** Protocol contract name (node_getProtocolContractAddresses) */
+  protocol?: string;
+  /** Address book label */
+  label?: string;
+  /** Bundled artifact the contract class was compiled from (`aztec:Token`) */
+  contractClass?: string;
+}
+
+/** Annotations keyed by field value (decimal), so zero-padding and case don't matter */
+export type Annotations = Map<string, AddressAnnotation>;
+
+const PROTOCOL_NAMES: Record<string, string> = {
+  authRegistry: 'Auth registry',
+  classRegistry: 'Contract class registry',
+  classRegisterer: 'Contract class registry',
+  contractClassRegisterer: 'Contract class registry',
+  instanceRegistry: 'Contract instance registry',
+  instanceDeployer: 'Contract instance registry',
+  contractInstanceDeployer: 'Contract instance registry',
+  feeJuice: 'Fee juice',
+  multiCallEntrypoint: 'Multi-call entrypoint',
+  router: 'Router',
+};
+
+const HEX_PATTERN = /^0x[0-9a-fA-F]{1,64}$/;
+const ANNOTATED_KEY = /address|contract|deployer|sender|recipient|coinbase|owner|account|^from$|^to$/i;
+
+// Protocol contract addresses per node URL, fetched once per process
+const protocolAddresses = new Map<string, Promise<Record<string, string>>>();
+
+/**
+ * Protocol contract addresses of a node (name -> address); the client's response cache keeps them per chain
+ */
+export function fetchProtocolAddresses(client: RpcClient, url: string): Promise<Record<string, string>> {
+  if (!protocolAddresses.has(url)) {
+    const request = client.call('node_getProtocolContractAddresses', []).then((result) => result ?? {});
+    // A failed fetch is retried by the next command
+    request.catch(() => protocolAddresses.delete(url));
+    protocolAddresses.set(url, request);
+  }
+  return protocolAddresses.get(url)!;
+}
+
+/**
+ * Cache file of the class ids of the bundled artifacts, per noir-contracts.js version (undefined without artifacts)
+ */
+export function contractClassesCachePath(cacheDir: string): string | undefined {
+  let artifacts: any[];
+  try {
+    artifacts = ArtifactUtils.listArtifacts(JSON.stringify({ source: 'aztec' })).artifacts;
+  } catch {
+    return undefined;
+  }
+  if (artifacts.length === 0) {
+    return undefined;
+  }
+  const packageJson = join(dirname(dirname(artifacts[0].path)), 'package.json');
+  const version = existsSync(packageJson) ? JSON.parse(readFileSync(packageJson, 'utf-8')).version : 'unknown';
+  return join(cacheDir, `contract-classes-${version}.json`);
+}
+
+/**
+ * Class ids of the bundled `aztec:` artifacts (class id -> `aztec:<Name>`)
+ * Computing them takes a while, so they are stored in the cache directory on first use.
+ */
+export async function knownContractClasses(cacheDir: string): Promise<Record<string, string>> {
+  const path = contractClassesCachePath(cacheDir);
+  if (!path) {
+    return {};
+  }
+  if (existsSync(path)) {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  }
+  console.error('Computing the contract class ids of the bundled artifacts (only once)...');
+  // Loaded here so that output formatting doesn't pull in the Aztec libraries
+  const { loadContractArtifact } = await import('@aztec/stdlib/abi');
+  const { getContractClassFromArtifact } = await import('@aztec/stdlib/contract');
+  const classes: Record<string, string> = {};
+  for (const artifact of ArtifactUtils.listArtifacts(JSON.stringify({ source: 'aztec' })).artifacts) {
+    try {
+      const contractClass = await getContractClassFromArtifact(loadContractArtifact(JSON.parse(readFileSync(artifact.path, 'utf-8'))));
+      classes[contractClass.id.toString()] = artifact.fullName;
+    } catch {
+      // Artifacts that don't load (e.g. not transpiled) just aren't annotated
+    }
+  }
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(classes, null, 2) + '\n');
+  return classes;
+}
+
+/**
+ * Merge protocol addresses (name -> address), labels (label -> address) and contract classes (class id -> name)
+ */
+export function buildAnnotations(sources: {
+  protocolAddresses?: Record<string, string>;
+  labels?: Record<string, string>;
+  contractClasses?: Record<string, string>;
+}): Annotations {
+  const annotations: Annotations = new Map();
+  const add = (value: any, annotation: AddressAnnotation) => {
+    if (typeof value !== 'string' || !HEX_PATTERN.test(value)) {
+      return;
+    }
+    const key = BigInt(value).toString();
+    annotations.set(key, { ...annotations.get(key), ...annotation });
+  };
+  for (const [name, address] of Object.entries(sources.protocolAddresses ?? {})) {
+    add(address, { protocol: PROTOCOL_NAMES[name] ?? name });
+  }
+  for (const [label, address] of Object.entries(sources.labels ?? {})) {
+    add(address, { label });
+  }
+  for (const [id, name] of Object.entries(sources.contractClasses ?? {})) {
+    add(id, { contractClass: name });
+  }
+  return annotations;
+}
+
+// Helper to rebuild a value with its annotated strings replaced by `decorate`
+function mapAnnotated(value: any, annotations: Annotations, decorate: (item: string, annotation: AddressAnnotation) => any): any {
+  const visit = (item: any, annotated: boolean): any => {
+    if (typeof item === 'string') {
+      const annotation = annotated && HEX_PATTERN.test(item) ? annotations.get(BigInt(item).toString()) : undefined;
+      return annotation ? decorate(item, annotation) : item;
+    }
+    if (Array.isArray(item)) {
+      return item.map((entry) => visit(entry, annotated));
+    }
+    if (item && typeof item === 'object') {
+      return Object.fromEntries(Object.entries(item).map(([key, entry]) => [key, visit(entry, ANNOTATED_KEY.test(key))]));
+    }
+    return item;
+  };
+  return visit(value, true);
+}
+
+/**
+ * Annotations of the addresses and class ids in a value (as written in the value -> annotation)
+ * A value that is itself an address (e.g. a `--select`ed field) is annotated too.
+ */
+export function findAnnotations(value: any, annotations: Annotations): Record<string, AddressAnnotation> {
+  const found: Record<string, AddressAnnotation> = {};
+  mapAnnotated(value, annotations, (item, annotation) => {
+    found[item] = annotation;
+    return item;
+  });
+  return found;
+}
+
+/**
+ * One-line description of an annotation: `protocol: Fee juice, label: fee, class: aztec:FeeJuice`
+ */
+export function describeAnnotation(annotation: AddressAnnotation): string {
+  return [
+    annotation.protocol && `protocol: ${annotation.protocol}`,
+    annotation.label && `label: ${annotation.label}`,
+    annotation.contractClass && `class: ${annotation.contractClass}`,
+  ].filter(Boolean).join(', ');
+}
+
+/**
+ * Decorate the annotated values for human-readable output: `0x05 [protocol: Fee juice]`
+ */
+export function annotateValue(value: any, annotations: Annotations): any {
+  return mapAnnotated(value, annotations, (item, annotation) => `${item} [${describeAnnotation(annotation)}]`);
+}
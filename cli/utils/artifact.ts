@@ -1,6 +1,7 @@
 import { readdirSync, existsSync } from 'fs';
 import { join, resolve, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { NotFoundError } from './errors.js';
 
 /**
  * Artifact management utility functions
@@ -191,11 +192,10 @@ export class ArtifactUtils {
           if (caseInsensitiveMatch) {
             return join(artifactsPath, caseInsensitiveMatch);
           }
-          
-          throw new Error(`Artifact "${contractName}" not found in ${source} artifacts`);
         } catch (error: any) {
           throw new Error(`Failed to resolve artifact "${artifactInput}": ${error.message}`);
         }
+        throw new NotFoundError(`Failed to resolve artifact "${artifactInput}": Artifact "${contractName}" not found in ${source} artifacts`);
       } else if (source === 'standards') {
         // Look for the artifact in .aztec-standards/target
         const artifactsPath = resolve(packageRoot, '.aztec-standards/target');
@@ -228,11 +228,10 @@ export class ArtifactUtils {
           if (caseInsensitiveMatch) {
             return join(artifactsPath, caseInsensitiveMatch);
           }
-          
-          throw new Error(`Artifact "${contractName}" not found in standards artifacts`);
         } catch (error: any) {
           throw new Error(`Failed to resolve artifact "${artifactInput}": ${error.message}`);
         }
+        throw new NotFoundError(`Failed to resolve artifact "${artifactInput}": Artifact "${contractName}" not found in standards artifacts`);
       } else {
         throw new Error(`Unknown artifact source: ${source}`);
       }
@@ -0,0 +1,136 @@
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { FixtureStore, canonicalJson } from './fixtures.js';
+
+/**
+ * How to tell which block a cacheable response is pinned to
+ * - `blockParam`: index of the block number param (`latest`/missing is never cached)
+ * - `resultBlock`: read the block number from the response
+ * - `immutable`: content-addressed or fixed for the chain, valid at any block
+ */
+interface CachePolicy {
+  blockParam?: number;
+  resultBlock?: (result: any) => any;
+  immutable?: boolean;
+}
+
+/**
+ * Methods whose responses never change once their block is proven
+ */
+const CACHE_POLICIES: Record<string, CachePolicy> = {
+  node_getBlock: { blockParam: 0 },
+  node_getBlockHeader: { blockParam: 0 },
+  node_getTxEffect: { resultBlock: (result) => result?.l2BlockNumber },
+  node_getTxReceipt: { resultBlock: (result) => result?.blockNumber },
+  node_getContractClass: { immutable: true },
+  node_getProtocolContractAddresses: { immutable: true },
+  node_getPublicStorageAt: { blockParam: 0 },
+  node_getL2ToL1Messages: { blockParam: 0 },
+  node_findLeavesIndexes: { blockParam: 0 },
+  node_getNullifierSiblingPath: { blockParam: 0 },
+  node_getNoteHashSiblingPath: { blockParam: 0 },
+  node_getArchiveSiblingPath: { blockParam: 0 },
+  node_getPublicDataSiblingPath: { blockParam: 0 },
+  node_getNullifierMembershipWitness: { blockParam: 0 },
+  node_getLowNullifierMembershipWitness: { blockParam: 0 },
+  node_getPublicDataWitness: { blockParam: 0 },
+  node_getArchiveMembershipWitness: { blockParam: 0 },
+  node_getNoteHashMembershipWitness: { blockParam: 0 },
+  node_getL1ToL2MessageMembershipWitness: { blockParam: 0 },
+};
+
+function toBlockNumber(value: any): number | undefined {
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return parseInt(value);
+  }
+  if (typeof value === 'string' && /^0x[0-9a-f]+$/i.test(value)) {
+    return Number(BigInt(value));
+  }
+  return undefined;
+}
+
+export function isCacheableMethod(method: string): boolean {
+  return method in CACHE_POLICIES;
+}
+
+/**
+ * Block a response is pinned to: a block number, 'immutable', or undefined when it must not be cached
+ */
+export function cachedResponseBlock(method: string, params: any[], result: any): number | 'immutable' | undefined {
+  const policy = CACHE_POLICIES[method];
+  if (!policy || result === null || result === undefined) {
+    return undefined;
+  }
+  if (policy.immutable) {
+    return 'immutable';
+  }
+  if (policy.blockParam !== undefined) {
+    return toBlockNumber(params[policy.blockParam]);
+  }
+  return toBlockNumber(policy.resultBlock?.(result));
+}
+
+/**
+ * Content-addressed cache of immutable historical responses
+ * Layout: `<root>/<chainId>-<rollupVersion>-<genesis>/<method>/<paramsHash>.json`
+ */
+export class ResponseCache {
+  constructor(private readonly root: string) {}
+
+  /**
+   * Store for one chain; the rollup version is part of the key since networks can share an L1 chain id
+   * A restarted sandbox keeps both, so the chain is also told apart by its first block header (its timestamp
+   * differs on every start); before the first block the key ends in `genesis`.
+   */
+  forChain(chainId: number | string, rollupVersion: number | string, firstBlockHeader?: any): FixtureStore {
+    const genesis = firstBlockHeader ? createHash('sha256').update(canonicalJson(firstBlockHeader)).digest('hex').slice(0, 16) : 'genesis';
+    return new FixtureStore(join(this.root, `${chainId}-${rollupVersion}-${genesis}`));
+  }
+
+  /**
+   * Entry count and size per chain and method
+   */
+  stats(): any {
+    const chains: any[] = [];
+    let totalEntries = 0;
+    let totalBytes = 0;
+    for (const chain of this.listDirs(this.root)) {
+      const methods: Record<string, { entries: number; bytes: number }> = {};
+      let entries = 0;
+      let bytes = 0;
+      for (const method of this.listDirs(join(this.root, chain))) {
+        const files = readdirSync(join(this.root, chain, method)).filter((f) => f.endsWith('.json'));
+        const size = files.reduce((sum, f) => sum + statSync(join(this.root, chain, method, f)).size, 0);
+        methods[method] = { entries: files.length, bytes: size };
+        entries += files.length;
+        bytes += size;
+      }
+      chains.push({ chain, entries, bytes, methods });
+      totalEntries += entries;
+      totalBytes += bytes;
+    }
+    return { dir: this.root, entries: totalEntries, bytes: totalBytes, chains };
+  }
+
+  /**
+   * Remove cached responses (all chains, or only `<chainId>-*` when given); returns the removed chain dirs
+   */
+  clear(chainId?: string): string[] {
+    const removed = this.listDirs(this.root).filter((chain) => !chainId || chain === chainId || chain.startsWith(`${chainId}-`));
+    for (const chain of removed) {
+      rmSync(join(this.root, chain), { recursive: true, force: true });
+    }
+    return removed;
+  }
+
+  private listDirs(dir: string): string[] {
+    if (!existsSync(dir)) {
+      return [];
+    }
+    return readdirSync(dir, { withFileTypes: true }).filter((e) => e.isDirectory()).map((e) => e.name);
+  }
+}
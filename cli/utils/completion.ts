@@ -0,0 +1,149 @@
+import { Command, Help, Option } from 'commander';
+
+/**
+ * Shell completion driven by the commander tree
+ * The generated shell scripts call back into `cazt __complete -- <words>` on every TAB, so completions
+ * always match the installed version and can include dynamic values (artifacts, labels, profiles).
+ */
+
+export const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'] as const;
+export type CompletionShell = typeof COMPLETION_SHELLS[number];
+
+/**
+ * Values an option takes, keyed by option attribute name (e.g. `artifact`, `storageSlotName`)
+ * Providers get the option values typed so far on the command line (global ones included).
+ */
+export type CompletionProviders = Record<string, (values: Record<string, string>) => string[]>;
+
+// Helper to find an option of a command or of one of its parents (global options)
+function findOption(cmd: Command, flag: string): Option | undefined {
+  for (let current: Command | null = cmd; current; current = current.parent) {
+    const option = current.options.find((o) => o.long === flag || o.short === flag);
+    if (option) {
+      return option;
+    }
+  }
+  return undefined;
+}
+
+// Helper to tell whether an option consumes the following word as its value
+function takesValue(option: Option): boolean {
+  return option.required || option.optional;
+}
+
+/**
+ * Completion candidates for the word being typed
+ * `words` are the words after the program name, the last one being the (possibly empty) current word.
+ */
+export function completeWords(program: Command, words: string[], providers: CompletionProviders = {}): string[] {
+  const current = words.length > 0 ? words[words.length - 1] : '';
+  let cmd = program;
+  let pending: Option | undefined;
+  let positionals = 0;
+  const values: Record<string, string> = {};
+
+  for (const word of words.slice(0, -1)) {
+    if (pending) {
+      values[pending.attributeName()] = word;
+      pending = undefined;
+      continue;
+    }
+    if (word.startsWith('-') && word !== '-') {
+      const [flag, inline] = word.split(/=(.*)/s);
+      const option = findOption(cmd, flag);
+      if (option && inline !== undefined) {
+        values[option.attributeName()] = inline;
+      } else if (option && takesValue(option)) {
+        pending = option;
+      }
+      continue;
+    }
+    const sub = cmd.commands.find((c) => c.name() === word || c.aliases().includes(word));
+    if (sub) {
+      cmd = sub;
+      positionals = 0;
+    } else {
+      positionals++;
+    }
+  }
+
+  const help = new Help();
+  let candidates: string[];
+  if (pending) {
+    const provider = providers[pending.attributeName()];
+    candidates = pending.argChoices ?? (provider ? safely(() => provider(values)) : []);
+  } else if (current.startsWith('-')) {
+    candidates = [];
+    for (let c: Command | null = cmd; c; c = c.parent) {
+      candidates.push(...help.visibleOptions(c).filter((o) => o.long).map((o) => o.long as string));
+    }
+  } else if (cmd.commands.length > 0) {
+    candidates = help.visibleCommands(cmd).map((c) => c.name());
+  } else {
+    candidates = cmd.registeredArguments[positionals]?.argChoices ?? [];
+  }
+  return [...new Set(candidates)].filter((candidate) => candidate.startsWith(current));
+}
+
+// Helper to keep a failing provider (e.g. a missing artifact) from breaking completion
+function safely(fn: () => string[]): string[] {
+  try {
+    return fn();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Completion script for a shell (load it with `eval "$(cazt completions <shell>)"` or save it where the shell looks)
+ */
+export function completionScript(shell: CompletionShell, name: string = 'cazt'): string {
+  const fn = `_${name.replace(/[^A-Za-z0-9_]/g, '_')}`;
+  switch (shell) {
+    case 'bash':
+      return `# ${name} bash completion: eval "$(${name} completions bash)" in ~/.bashrc
+${fn}() {
+  # Split the line ourselves: COMP_WORDS also breaks words on ":" and "="
+  local line="\${COMP_LINE:0:COMP_POINT}" words
+  read -ra words <<< "$line"
+  [[ -z "$line" || "$line" == *[[:space:]] ]] && words+=("")
+  local cur="\${words[\${#words[@]}-1]}"
+  local IFS=$'\\n'
+  COMPREPLY=($(${name} __complete -- "\${words[@]:1}" 2>/dev/null))
+  # bash only replaces the part of the word after the last ":" or "="
+  if [[ "$cur" == *[:=]* ]]; then
+    local prefix="\${cur%"\${cur##*[:=]}"}"
+    COMPREPLY=("\${COMPREPLY[@]#"$prefix"}")
+  fi
+}
+complete -o default -F ${fn} ${name}
+`;
+    case 'zsh':
+      return `#compdef ${name}
+# ${name} zsh completion: eval "$(${name} completions zsh)" in ~/.zshrc (after compinit), or save as _${name} in $fpath
+${fn}() {
+  local output
+  output="$(${name} __complete -- "\${(@)words[2,CURRENT]}" 2>/dev/null)"
+  if [[ -n "$output" ]]; then
+    compadd -- "\${(@f)output}"
+  else
+    _files
+  fi
+}
+if [[ "$funcstack[1]" == "${fn}" ]]; then
+  ${fn} "$@"
+else
+  compdef ${fn} ${name}
+fi
+`;
+    case 'fish':
+      return `# ${name} fish completion: ${name} completions fish > ~/.config/fish/completions/${name}.fish
+function __${name}_complete
+    set -l tokens (commandline -opc)
+    set -l current (commandline -ct)
+    ${name} __complete -- $tokens[2..-1] "$current" 2>/dev/null
+end
+complete -c ${name} -f -a '(__${name}_complete)'
+`;
+  }
+}
@@ -0,0 +1,279 @@
+import * as readline from 'readline';
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { dirname } from 'path';
+import { getPath } from './path.js';
+
+/**
+ * Interactive console (`cazt console`): runs commands without the program name and keeps their results in variables
+ *
+ *   $r = tx effect --hash 0x...     store the (JSON) output of a command
+ *   $r.data.noteHashes[0]           print a value
+ *   tx receipt --hash $r.txHash     use a value as an argument
+ */
+
+export interface ConsoleOptions {
+  /** Run a command (words without the program name), returning its output when `capture` is set */
+  run: (words: string[], capture: boolean) => Promise<string | undefined>;
+  /** Completion candidates for the last of the words */
+  complete?: (words: string[]) => string[];
+  /** File the history is loaded from and appended to */
+  historyFile?: string;
+  prompt?: string;
+  pretty?: boolean;
+}
+
+/**
+ * Thrown in place of process.exit() while a command runs in-process (console, plans), so a failing command doesn't end the run
+ */
+export class CommandExit extends Error {
+  constructor(public readonly code: number, message?: string) {
+    super(message || `Command exited with code ${code}`);
+    this.name = 'CommandExit';
+  }
+}
+
+interface Token {
+  value: string;
+  quoted: boolean;
+}
+
+const HISTORY_SIZE = 1000;
+const VARIABLE = /^\$([A-Za-z_][A-Za-z0-9_]*)((?:\.[A-Za-z_$][\w$]*|\[\d+\]|\["[^"]*"\]|\['[^']*'\])*)$/;
+const ASSIGNMENT = /^\$([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/s;
+
+const HELP = `Run any cazt command without the "cazt" prefix, e.g. "block number".
+  $name = <command>     store the output of a command (parsed as JSON when possible)
+  $name = $other.path   store part of another variable
+  $name.path[0]         print a variable, or part of it
+  <command> ... $name   pass a variable as an argument
+  .vars                 list variables
+  .help                 show this help
+  .exit                 leave the console (or Ctrl-D)`;
+
+/**
+ * Split a line into words like a shell: whitespace separated, with '...' and "..." quoting and \\ escapes
+ * With `partial`, an unterminated quote ends the last word instead of failing (for completion).
+ */
+function tokenize(line: string, partial: boolean = false): Token[] {
+  const tokens: Token[] = [];
+  let current: Token | undefined;
+  let quote: string | undefined;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else if (char === '\\' && quote === '"' && i + 1 < line.length) {
+        current!.value += line[++i];
+      } else {
+        current!.value += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current = current ?? { value: '', quoted: false };
+      current.quoted = true;
+    } else if (char === '\\' && i + 1 < line.length) {
+      current = current ?? { value: '', quoted: false };
+      current.value += line[++i];
+    } else if (/\s/.test(char)) {
+      if (current) {
+        tokens.push(current);
+        current = undefined;
+      }
+    } else {
+      current = current ?? { value: '', quoted: false };
+      current.value += char;
+    }
+  }
+  if (quote && !partial) {
+    throw new Error(`Unterminated ${quote} quote`);
+  }
+  if (current) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+export function splitWords(line: string): string[] {
+  return tokenize(line).map((token) => token.value);
+}
+
+/**
+ * A command's output as data: JSON when it parses, else the text
+ */
+export function parseOutput(output: string): any {
+  try {
+    return JSON.parse(output);
+  } catch {
+    return output;
+  }
+}
+
+/**
+ * Console state: variables and the evaluation of one line
+ */
+export class ConsoleSession {
+  readonly vars: Record<string, any> = {};
+
+  constructor(private readonly options: ConsoleOptions) {}
+
+  /**
+   * Evaluate a line; returns the text to print, if any (commands print their own output)
+   */
+  async evaluate(line: string): Promise<string | undefined> {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return undefined;
+    }
+    if (trimmed === '.help') {
+      return HELP;
+    }
+    if (trimmed === '.vars') {
+      return Object.entries(this.vars)
+        .map(([name, value]) => `$${name}: ${Array.isArray(value) ? `array(${value.length})` : value === null ? 'null' : typeof value}`)
+        .join('\n');
+    }
+    if (trimmed.startsWith('.')) {
+      throw new Error(`Unknown console command "${trimmed.split(/\s/)[0]}" (see .help)`);
+    }
+    const assignment = trimmed.match(ASSIGNMENT);
+    if (assignment) {
+      const [, name, expression] = assignment;
+      this.vars[name] = await this.value(expression);
+      return undefined;
+    }
+    if (VARIABLE.test(trimmed)) {
+      return this.format(this.resolve(trimmed));
+    }
+    await this.options.run(this.substitute(tokenize(trimmed)), false);
+    return undefined;
+  }
+
+  /**
+   * Completion candidates for a partial line: variables after "$", else the words of a command
+   */
+  complete(line: string): [string[], string] {
+    const command = line.replace(/^\s*\$[A-Za-z0-9_]*\s*=\s*/, '');
+    const words = tokenize(command, true).map((token) => token.value);
+    if (command.length === 0 || /\s$/.test(command)) {
+      words.push('');
+    }
+    const current = words[words.length - 1];
+    if (current.startsWith('$')) {
+      return [Object.keys(this.vars).map((name) => `$${name}`).filter((name) => name.startsWith(current)), current];
+    }
+    return [this.options.complete?.(words) ?? [], current];
+  }
+
+  private async value(expression: string): Promise<any> {
+    if (VARIABLE.test(expression.trim())) {
+      return this.resolve(expression.trim());
+    }
+    const output = await this.options.run(this.substitute(tokenize(expression)), true);
+    return parseOutput(output ?? '');
+  }
+
+  private resolve(reference: string): any {
+    const [, name, path] = reference.match(VARIABLE)!;
+    if (!(name in this.vars)) {
+      throw new Error(`Unknown variable $${name} (see .vars)`);
+    }
+    return getPath(this.vars[name], path, `$${name}`);
+  }
+
+  // Helper to replace unquoted $variable words with their values
+  private substitute(tokens: Token[]): string[] {
+    return tokens.map((token) => {
+      if (token.quoted || !VARIABLE.test(token.value)) {
+        return token.value;
+      }
+      const value = this.resolve(token.value);
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    });
+  }
+
+  private format(value: any): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    return JSON.stringify(value, null, this.options.pretty === false ? 0 : 2) ?? 'undefined';
+  }
+}
+
+function loadHistory(path: string | undefined): string[] {
+  if (!path || !existsSync(path)) {
+    return [];
+  }
+  return readFileSync(path, 'utf-8').split('\n').filter((line) => line.trim()).slice(-HISTORY_SIZE).reverse();
+}
+
+function saveHistory(path: string | undefined, line: string): void {
+  if (!path) {
+    return;
+  }
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(path, `${line}\n`);
+  } catch {
+    // History is best effort
+  }
+}
+
+/**
+ * Run the console until Ctrl-D or .exit
+ */
+export async function startConsole(options: ConsoleOptions): Promise<void> {
+  const exit = process.exit;
+  const session = new ConsoleSession(options);
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    prompt: options.prompt ?? 'cazt> ',
+    history: loadHistory(options.historyFile),
+    historySize: HISTORY_SIZE,
+    completer: (line: string) => session.complete(line),
+  });
+  let busy = false;
+  rl.on('SIGINT', () => {
+    if (!busy) {
+      rl.write('', { ctrl: true, name: 'u' });
+      process.stdout.write('\n');
+      rl.prompt();
+      return;
+    }
+    // Let a running command report what it completed (see runInterruptible) before leaving
+    try {
+      process.emit('SIGINT', 'SIGINT');
+    } catch {
+      // The command's handler exits, which throws CommandExit while it runs
+    }
+    exit.call(process, 130);
+  });
+
+  console.log('cazt console - type .help for help, .exit or Ctrl-D to leave');
+  rl.prompt();
+  for await (const line of rl) {
+    if (line.trim() === '.exit') {
+      break;
+    }
+    if (line.trim()) {
+      saveHistory(options.historyFile, line);
+    }
+    busy = true;
+    try {
+      const output = await session.evaluate(line);
+      if (output !== undefined) {
+        console.log(output);
+      }
+    } catch (error: any) {
+      // A command that exited has already printed its error
+      if (!(error instanceof CommandExit)) {
+        console.error(`Error: ${error.message}`);
+      }
+    } finally {
+      busy = false;
+    }
+    rl.prompt();
+  }
+  rl.close();
+}
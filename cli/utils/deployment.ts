@@ -1,10 +1,10 @@
 import { AztecAddress } from '@aztec/aztec.js/addresses';
 import { Fr } from '@aztec/foundation/fields';
-import { createAztecNodeClient, waitForNode } from '@aztec/aztec.js/node';
-import { TestWallet } from '@aztec/test-wallet/server';
 import { Contract } from '@aztec/aztec.js/contracts';
 import { loadContractArtifact } from '@aztec/stdlib/abi';
 import { getDefaultNodeUrl } from '../config/index.js';
+import { connectWallet } from './wallet.js';
+import { Progress } from './progress.js';
 
 /**
  * Deployment utility functions
@@ -12,8 +12,9 @@ import { getDefaultNodeUrl } from '../config/index.js';
 export class DeploymentUtils {
   /**
    * Deploy a contract
+   * Completed steps (account, contract address, tx hash) are recorded in `progress` as they happen.
    */
-  static async deployContract(params: string): Promise<any> {
+  static async deployContract(params: string, progress?: Progress): Promise<any> {
     const p = JSON.parse(params);
     const {
       nodeUrl = getDefaultNodeUrl(),
@@ -56,18 +57,10 @@ export class DeploymentUtils {
     const contractArtifact = loadContractArtifact(artifactJson as any);
     debugLog(`[DEBUG] Artifact loaded:`, { name: contractArtifact.name });
 
-    // Create node client and wait for it to be ready
-    debugLog(`[DEBUG] Creating node client for: ${nodeUrl}`);
-    const node = createAztecNodeClient(nodeUrl);
-    await waitForNode(node);
-    debugLog(`[DEBUG] Node is ready`);
-
-    // Create wallet using TestWallet
-    debugLog(`[DEBUG] Creating TestWallet...`);
-    const wallet = await TestWallet.create(node, {
-      proverEnabled: false,
-    });
-    debugLog(`[DEBUG] Wallet created`);
+    // Create node client, wait for it to be ready and create a TestWallet (reused within `cazt console`)
+    debugLog(`[DEBUG] Creating node client and TestWallet for: ${nodeUrl}`);
+    const { node, wallet } = await connectWallet(nodeUrl, p, progress);
+    debugLog(`[DEBUG] Node is ready, wallet created`);
 
     // Create account if secret key is provided
     let accountManager: any = null;
@@ -86,6 +79,7 @@ export class DeploymentUtils {
       debugLog(`[DEBUG] Creating account with secret key...`);
       accountManager = await wallet.createSchnorrAccount(secretKey, saltToUse);
       debugLog(`[DEBUG] Account created:`, { address: accountManager.address.toString() });
+      progress?.record('account', { address: accountManager.address.toString() });
     }
 
     // Prepare deployment options
@@ -155,12 +149,14 @@ export class DeploymentUtils {
       address: instance.address.toString(),
       contractClassId: instance.currentContractClassId.toString(),
     });
+    progress?.record('contractAddress', instance.address.toString());
 
     // Send deployment transaction
     debugLog(`[DEBUG] Sending deployment transaction...`);
     const deployTx = deployMethod.send(deployOptions);
     const txHash = await deployTx.getTxHash();
     debugLog(`[DEBUG] Deployment transaction sent:`, { txHash: txHash.toString() });
+    progress?.record('txHash', txHash.toString());
 
     let receipt: any = null;
     let contract: any = null;
@@ -0,0 +1,183 @@
+/**
+ * Error types shared by the RPC client and node client helpers
+ */
+
+/**
+ * Failure to reach the node or a non-2xx HTTP response without a JSON-RPC error payload
+ */
+export class TransportError extends Error {
+  /** HTTP status code (undefined for network-level failures) */
+  readonly status?: number;
+  /** Delay requested by the server via Retry-After, in milliseconds */
+  readonly retryAfter?: number;
+
+  constructor(message: string, status?: number, retryAfter?: number) {
+    super(message);
+    this.name = 'TransportError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+
+  /**
+   * Whether the request may succeed if sent again
+   * Network failures, timeouts, rate limits and gateway errors are retryable
+   */
+  get retryable(): boolean {
+    if (this.status === undefined) {
+      return true;
+    }
+    return [408, 425, 429, 500, 502, 503, 504].includes(this.status);
+  }
+}
+
+/**
+ * A request (or the wait for node readiness) that didn't complete in time
+ * Timed out requests are retried like other network failures.
+ */
+export class TimeoutError extends TransportError {
+  /** The timeout that elapsed, in milliseconds */
+  readonly timeout: number;
+
+  constructor(message: string, timeout: number) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * JSON-RPC `error` payload returned by the node
+ * These are never retried: the node understood the request and rejected it
+ */
+export class RpcError extends Error {
+  readonly code?: number;
+  readonly data?: any;
+  /** The raw `error` object from the JSON-RPC response */
+  readonly payload: any;
+
+  constructor(error: any) {
+    super(`RPC error: ${JSON.stringify(error)}`);
+    this.name = 'RpcError';
+    this.payload = error;
+    this.code = typeof error?.code === 'number' ? error.code : undefined;
+    this.data = error?.data;
+  }
+}
+
+/**
+ * Invalid user input detected before anything is sent to the node
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/**
+ * The node doesn't match the chain identity pinned for its network
+ */
+export class NetworkMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkMismatchError';
+  }
+}
+
+/**
+ * Something the command looks up doesn't exist (artifact, keystore account, profile, label, transaction, ...)
+ */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * A sent transaction was mined with a non-success status (reverted) or dropped
+ */
+export class RevertedTxError extends Error {
+  readonly txHash?: string;
+  /** Receipt status, e.g. app_logic_reverted or dropped */
+  readonly status?: string;
+
+  constructor(message: string, txHash?: string, status?: string) {
+    super(message);
+    this.name = 'RevertedTxError';
+    this.txHash = txHash;
+    this.status = status;
+  }
+}
+
+/**
+ * Kinds of failures and the exit code of each (stable: scripts branch on them)
+ */
+export const EXIT_CODES = {
+  /** Anything not classified below */
+  error: 1,
+  /** Bad arguments, options or input files (including command-line usage errors) */
+  invalid_input: 2,
+  /** The node or admin endpoint couldn't be reached, or answered with an HTTP error */
+  transport: 3,
+  /** The node returned a JSON-RPC error (see rpcCode and data) */
+  rpc: 4,
+  not_found: 5,
+  /** A request, or the wait for the node to be ready, timed out */
+  timeout: 6,
+  /** A sent transaction reverted or was dropped */
+  reverted: 7,
+  /** The node doesn't match the chain identity pinned for its network */
+  network_mismatch: 8,
+} as const;
+
+export type ErrorKind = keyof typeof EXIT_CODES;
+
+/**
+ * Machine-readable description of a failure (printed as `{ error: ... }` on stderr under --json)
+ */
+export interface ErrorDetails {
+  kind: ErrorKind;
+  message: string;
+  /** JSON-RPC error code (rpc errors) */
+  rpcCode?: number;
+  /** JSON-RPC error data, HTTP status, or the transaction of a reverted tx */
+  data?: any;
+}
+
+// aztec.js reports a failed wait() as "Transaction 0x... was app_logic_reverted. Reason: ..."
+const FAILED_TX = /Transaction (0x[0-9a-fA-F]+) was (\w*reverted\w*|dropped)/;
+
+/**
+ * Classify an error thrown by a command
+ */
+export function classifyError(error: any): ErrorDetails {
+  const message = error?.message ?? String(error);
+  if (error instanceof TimeoutError) {
+    return { kind: 'timeout', message, data: { timeout: error.timeout } };
+  }
+  if (error instanceof TransportError) {
+    return { kind: 'transport', message, data: error.status !== undefined ? { status: error.status } : undefined };
+  }
+  if (error instanceof RpcError) {
+    return { kind: 'rpc', message, rpcCode: error.code, data: error.data };
+  }
+  if (error instanceof NotFoundError) {
+    return { kind: 'not_found', message };
+  }
+  if (error instanceof RevertedTxError) {
+    return { kind: 'reverted', message, data: { txHash: error.txHash, status: error.status } };
+  }
+  if (error instanceof NetworkMismatchError) {
+    return { kind: 'network_mismatch', message };
+  }
+  // Bad JSON arguments, and errors of commander's argument parsers
+  if (error instanceof ValidationError || error instanceof SyntaxError || error?.code === 'commander.invalidArgument') {
+    return { kind: 'invalid_input', message };
+  }
+  const failedTx = message.match(FAILED_TX);
+  if (failedTx) {
+    return { kind: 'reverted', message, data: { txHash: failedTx[1], status: failedTx[2] } };
+  }
+  return { kind: 'error', message };
+}
@@ -0,0 +1,59 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+/**
+ * Recorded JSON-RPC exchange - exactly one of result/error is set
+ */
+export interface RpcFixture {
+  method: string;
+  params: any[];
+  result?: any;
+  error?: any;
+}
+
+/**
+ * Serialize a value to JSON with object keys sorted, so equal params always hash the same
+ */
+export function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Content hash of a call's params (sha256 of their canonical JSON)
+ */
+export function paramsHash(params: any[]): string {
+  return createHash('sha256').update(canonicalJson(params)).digest('hex');
+}
+
+/**
+ * Directory of recorded RPC exchanges, laid out as `<dir>/<method>/<paramsHash>.json`
+ */
+export class FixtureStore {
+  constructor(private readonly dir: string) {}
+
+  pathFor(method: string, params: any[]): string {
+    return join(this.dir, method, `${paramsHash(params)}.json`);
+  }
+
+  read(method: string, params: any[]): RpcFixture | undefined {
+    const path = this.pathFor(method, params);
+    if (!existsSync(path)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  }
+
+  write(fixture: RpcFixture): void {
+    const path = this.pathFor(fixture.method, fixture.params);
+    mkdirSync(join(this.dir, fixture.method), { recursive: true });
+    writeFileSync(path, JSON.stringify(fixture, null, 2) + '\n');
+  }
+}
@@ -0,0 +1,304 @@
+import { inspect } from 'util';
+import { ValidationError } from './errors.js';
+import { renderPretty } from './pretty.js';
+import { isScalarSelection, selectPath } from './path.js';
+import { Annotations, annotateValue, findAnnotations } from './annotate.js';
+import { findLabels } from '../config/labels.js';
+
+/**
+ * Output formats (`--format`): JSON, raw values, YAML, row-based table, CSV and NDJSON, and human-readable blocks,
+ * headers and receipts (`pretty`, other results print as YAML)
+ *
+ * Row-based formats take their rows from the result: the items of an array, the items of an object's only list
+ * (`logs public` -> `logs`) or the entries of its only map keyed by address/hash/number (`validators stats` -> `stats`,
+ * with the key in a `key` column), else the result itself as a single row. Nested values are flattened into
+ * `a.b[0].c` columns.
+ */
+
+export const OUTPUT_FORMATS = ['json', 'raw', 'table', 'yaml', 'csv', 'ndjson', 'pretty'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/** Formats that print rows, and accept --columns */
+export const ROW_FORMATS: OutputFormat[] = ['table', 'csv', 'ndjson'];
+
+export interface FormatOptions {
+  format: OutputFormat;
+  /** Indent JSON output (default: true) */
+  pretty?: boolean;
+  /** Flattened columns to print (row formats); a column also selects the columns nested under it */
+  columns?: string[];
+}
+
+export interface RenderOptions {
+  /** Format asked for (--format, --human) */
+  format?: OutputFormat;
+  /** Format when none is asked for and the output isn't a single selected value (unset: print the value as is) */
+  fallback?: OutputFormat;
+  /** Indent JSON output (default: true) */
+  pretty?: boolean;
+  /** Columns of row formats */
+  columns?: string[];
+  /** Path of the part of the result to output (`a.b[0]`, `a[*].b`) */
+  select?: string;
+  /** Address book (label -> address): JSON/YAML output is wrapped as `{ result, labels }` with the labels of addresses it contains */
+  labels?: Record<string, string>;
+  /** Protocol names, labels and class names of known addresses: JSON/YAML output gets an `annotations` map, pretty output notes next to the values */
+  annotations?: Annotations;
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isScalar(value: any): boolean {
+  return value === null || typeof value !== 'object';
+}
+
+// Helper to build a child path the way `--select` and the plan/console paths read them
+function childPath(prefix: string, key: string | number): string {
+  if (typeof key === 'number') {
+    return `${prefix}[${key}]`;
+  }
+  if (!/^[A-Za-z_$][\w$]*$/.test(key)) {
+    return `${prefix}["${key}"]`;
+  }
+  return prefix ? `${prefix}.${key}` : key;
+}
+
+/**
+ * Flatten nested objects and arrays into `a.b[0].c` keys; a scalar becomes `{ value }`
+ */
+export function flatten(value: any, prefix: string = '', into: Record<string, any> = {}): Record<string, any> {
+  if (Array.isArray(value) && value.length > 0) {
+    value.forEach((item, index) => flatten(item, childPath(prefix, index), into));
+  } else if (isObject(value) && Object.keys(value).length > 0) {
+    for (const [key, item] of Object.entries(value)) {
+      flatten(item, childPath(prefix, key), into);
+    }
+  } else {
+    into[prefix || 'value'] = value;
+  }
+  return into;
+}
+
+// Helper to recognise maps such as { "<address>": { ...stats } }
+function isKeyedMap(value: any): value is Record<string, Record<string, any>> {
+  const entries = isObject(value) ? Object.entries(value) : [];
+  return entries.length > 0 && entries.every(([key, item]) => /^(0x[0-9a-fA-F]+|\d+)$/.test(key) && isObject(item));
+}
+
+/**
+ * The rows of a result (see above); `single` is set when the result itself is the only row
+ */
+export function toRows(value: any): { rows: any[]; single: boolean } {
+  if (Array.isArray(value)) {
+    return { rows: value, single: false };
+  }
+  if (isObject(value)) {
+    const lists = Object.values(value).filter((item) => Array.isArray(item) || isKeyedMap(item));
+    if (lists.length === 1) {
+      const [list] = lists;
+      return { rows: Array.isArray(list) ? list : Object.entries(list).map(([key, item]) => ({ key, ...item })), single: false };
+    }
+  }
+  return { rows: [value], single: true };
+}
+
+// Helper to pick the requested columns (exactly, or the columns nested under them) in the requested order
+function selectColumns(available: string[], requested: string[] | undefined): string[] {
+  if (!requested || requested.length === 0) {
+    return available;
+  }
+  const selected: string[] = [];
+  for (const column of requested) {
+    const matches = available.filter((name) => name === column || name.startsWith(`${column}.`) || name.startsWith(`${column}[`));
+    if (matches.length === 0) {
+      throw new ValidationError(`Unknown column "${column}" (available: ${available.join(', ')})`);
+    }
+    selected.push(...matches.filter((name) => !selected.includes(name)));
+  }
+  return selected;
+}
+
+function flatRows(value: any, columns: string[] | undefined): { rows: Record<string, any>[]; columns: string[]; single: boolean } {
+  const { rows, single } = toRows(value);
+  const flat = rows.map((row) => flatten(row));
+  const available: string[] = [];
+  for (const row of flat) {
+    available.push(...Object.keys(row).filter((name) => !available.includes(name)));
+  }
+  return { rows: flat, columns: selectColumns(available, columns), single };
+}
+
+// Helper to print a cell: strings as they are, everything else as JSON, missing values empty
+function cell(value: any): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function formatTable(value: any, columns: string[] | undefined): string {
+  const table = flatRows(value, columns);
+  // A single object reads better as field/value lines than as one very wide row
+  const lines = table.single
+    ? [['field', 'value'], ...table.columns.map((name) => [name, cell(table.rows[0][name])])]
+    : [table.columns, ...table.rows.map((row) => table.columns.map((name) => cell(row[name])))];
+  const widths = lines[0].map((_, index) => Math.max(...lines.map((line) => line[index].length)));
+  return lines.map((line) => line.map((text, index) => text.padEnd(widths[index])).join('  ').trimEnd()).join('\n');
+}
+
+function csvField(text: string): string {
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatCsv(value: any, columns: string[] | undefined): string {
+  const table = flatRows(value, columns);
+  return [table.columns, ...table.rows.map((row) => table.columns.map((name) => cell(row[name])))]
+    .map((line) => line.map(csvField).join(','))
+    .join('\n');
+}
+
+function formatNdjson(value: any, columns: string[] | undefined): string {
+  if (!columns || columns.length === 0) {
+    return toRows(value).rows.map((row) => JSON.stringify(row) ?? 'null').join('\n');
+  }
+  const table = flatRows(value, columns);
+  return table.rows.map((row) => JSON.stringify(Object.fromEntries(table.columns.map((name) => [name, row[name] ?? null])))).join('\n');
+}
+
+// Strings YAML would read as something else (numbers, hex, booleans, null) or that need escaping are quoted
+function yamlScalar(value: any): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (typeof value === 'object') {
+    return '{}';
+  }
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  const plain = /^[A-Za-z_][\w .\/-]*$/.test(value) && !/\s$/.test(value) && !/^(true|false|yes|no|on|off|null|y|n)$/i.test(value);
+  return plain ? value : JSON.stringify(value);
+}
+
+function yamlKey(key: string): string {
+  return /^[A-Za-z_][\w.-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function isBlock(value: any): boolean {
+  return !isScalar(value) && Object.keys(value).length > 0;
+}
+
+function yamlLines(value: any): string[] {
+  const lines: string[] = [];
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (isBlock(item)) {
+        const [first, ...rest] = yamlLines(item);
+        lines.push(`- ${first}`, ...rest.map((line) => `  ${line}`));
+      } else {
+        lines.push(`- ${yamlScalar(item)}`);
+      }
+    }
+    return lines;
+  }
+  for (const [key, item] of Object.entries(value)) {
+    if (isBlock(item)) {
+      lines.push(`${yamlKey(key)}:`, ...yamlLines(item).map((line) => `  ${line}`));
+    } else {
+      lines.push(`${yamlKey(key)}: ${yamlScalar(item)}`);
+    }
+  }
+  return lines;
+}
+
+export function toYaml(value: any): string {
+  return isBlock(value) ? yamlLines(value).join('\n') : yamlScalar(value);
+}
+
+// Helper to print a value without JSON quoting: scalars as they are, lists of scalars one per line
+function formatRaw(value: any, pretty: boolean): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (isScalar(value)) {
+    return String(value);
+  }
+  if (Array.isArray(value) && value.every(isScalar)) {
+    return value.map((item) => String(item)).join('\n');
+  }
+  return JSON.stringify(value, null, pretty ? 2 : 0);
+}
+
+/**
+ * Render a command result in an output format
+ */
+export function formatValue(value: any, options: FormatOptions): string {
+  const { format, pretty = true, columns } = options;
+  if (columns?.length && !ROW_FORMATS.includes(format)) {
+    throw new ValidationError(`--columns needs --format ${ROW_FORMATS.join(', ')}`);
+  }
+  switch (format) {
+    case 'raw':
+      return formatRaw(value, pretty);
+    case 'table':
+      return formatTable(value, columns);
+    case 'csv':
+      return formatCsv(value, columns);
+    case 'ndjson':
+      return formatNdjson(value, columns);
+    case 'yaml':
+      return toYaml(value);
+    case 'pretty':
+      return typeof value === 'string' ? value : renderPretty(value) ?? toYaml(value);
+    default:
+      return JSON.stringify(value, null, pretty ? 2 : 0) ?? 'null';
+  }
+}
+
+/**
+ * Render the result of a command: select a part of it, add labels and annotations, then format it
+ */
+export function renderResult(value: any, options: RenderOptions): string {
+  let format = options.format;
+  if (options.select !== undefined) {
+    value = selectPath(value, options.select);
+    // A single selected value prints as is, for use in shell substitutions
+    if (!format && isScalarSelection(options.select, value)) {
+      format = 'raw';
+    }
+  }
+  format = format ?? options.fallback;
+  if (!format) {
+    return typeof value === 'string' ? value : inspect(value);
+  }
+  value = value ?? null;
+  // Labels and annotations wrap whole documents; row formats print the result alone
+  if ((options.labels || options.annotations) && (format === 'json' || format === 'yaml')) {
+    value = {
+      result: value,
+      ...(options.labels && { labels: findLabels(value, options.labels) }),
+      ...(options.annotations && { annotations: findAnnotations(value, options.annotations) }),
+    };
+  }
+  if (format === 'pretty' && options.annotations) {
+    value = annotateValue(value, options.annotations);
+  }
+  return formatValue(value, { format, pretty: options.pretty, columns: options.columns });
+}
+
+/**
+ * Parse `--columns a,b.c` (repeatable)
+ */
+export function parseColumns(input: string | string[] | undefined): string[] | undefined {
+  if (!input) {
+    return undefined;
+  }
+  const columns = (Array.isArray(input) ? input : [input]).flatMap((entry) => entry.split(',')).map((column) => column.trim()).filter(Boolean);
+  return columns.length > 0 ? columns : undefined;
+}
@@ -10,6 +10,7 @@ import { ArtifactUtils } from './artifact.js';
 import { NoteUtils } from './note.js';
 import { DeploymentUtils } from './deployment.js';
 import { LogUtils } from './log.js';
+import { InteractionUtils } from './interaction.js';
 
 /**
  * AztecUtilities - Main utility class that groups all utility functions
@@ -118,6 +119,10 @@ export class AztecUtilities {
   // Deployment utilities
   static deployContract = DeploymentUtils.deployContract;
 
+  // Contract function utilities
+  static simulateFunction = InteractionUtils.simulateFunction;
+  static sendFunction = InteractionUtils.sendFunction;
+
   // Log utilities
   static decryptRawPrivateLog = LogUtils.decryptRawPrivateLog;
 }
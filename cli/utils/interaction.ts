@@ -0,0 +1,345 @@
+import { AztecAddress } from '@aztec/aztec.js/addresses';
+import { Contract } from '@aztec/aztec.js/contracts';
+import { Fr } from '@aztec/foundation/fields';
+import { EthAddress } from '@aztec/foundation/eth-address';
+import {
+  AbiType,
+  ContractArtifact,
+  EventSelector,
+  FunctionAbi,
+  FunctionSelector,
+  decodeFromAbi,
+  decodeFunctionSignature,
+  getAllFunctionAbis,
+  isAztecAddressStruct,
+  isEthAddressStruct,
+  isFunctionSelectorStruct,
+  isWrappedFieldStruct,
+  loadContractArtifact,
+} from '@aztec/stdlib/abi';
+import { Gas, GasFees } from '@aztec/stdlib/gas';
+import { getDefaultNodeUrl } from '../config/index.js';
+import { connectWallet } from './wallet.js';
+import { Progress } from './progress.js';
+import { NotFoundError, RevertedTxError, ValidationError } from './errors.js';
+
+/**
+ * Contract function calls through a TestWallet
+ * Arguments are given as JSON and encoded from the function ABI; return values are decoded into JSON by their ABI types
+ * (fields as hex, integers as decimal strings, structs as objects with their field names, addresses as hex).
+ */
+
+// Helper to describe an ABI type in error messages: u128, Field, [Field; 2], AztecAddress, ...
+function typeName(type: AbiType): string {
+  switch (type.kind) {
+    case 'field':
+      return 'Field';
+    case 'integer':
+      return `${type.sign === 'signed' ? 'i' : 'u'}${type.width}`;
+    case 'boolean':
+      return 'bool';
+    case 'string':
+      return `str<${type.length}>`;
+    case 'array':
+      return `[${typeName(type.type)}; ${type.length}]`;
+    case 'tuple':
+      return `(${type.fields.map(typeName).join(', ')})`;
+    case 'struct':
+      return type.path.split('::').pop() ?? type.path;
+    default:
+      return (type as any).kind;
+  }
+}
+
+/**
+ * Signature of a function with named, typed parameters: `transfer(to: AztecAddress, amount: u128)`
+ */
+export function describeFunction(fn: FunctionAbi): string {
+  return `${fn.name}(${fn.parameters.map((param) => `${param.name}: ${typeName(param.type)}`).join(', ')})`;
+}
+
+function toField(value: any, what: string): Fr {
+  if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+    return new Fr(BigInt(value));
+  }
+  if (typeof value === 'string' && /^(0x[0-9a-fA-F]+|\d+)$/.test(value)) {
+    return new Fr(BigInt(value));
+  }
+  throw new ValidationError(`Invalid ${what}: expected a field (hex or decimal), got ${JSON.stringify(value)}`);
+}
+
+// Helper to turn a JSON argument into the value the ABI encoder expects
+function toAbiValue(type: AbiType, value: any, what: string): any {
+  switch (type.kind) {
+    case 'field':
+      return toField(value, what);
+    case 'integer':
+      if ((typeof value === 'number' && Number.isSafeInteger(value)) || (typeof value === 'string' && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(value))) {
+        return BigInt(value);
+      }
+      throw new ValidationError(`Invalid ${what}: expected ${typeName(type)}, got ${JSON.stringify(value)}`);
+    case 'boolean':
+      if (typeof value === 'boolean' || value === 'true' || value === 'false') {
+        return value === true || value === 'true';
+      }
+      throw new ValidationError(`Invalid ${what}: expected true or false, got ${JSON.stringify(value)}`);
+    case 'string':
+      return String(value);
+    case 'array':
+    case 'tuple': {
+      const types = type.kind === 'array' ? Array(type.length).fill(type.type) : type.fields;
+      if (!Array.isArray(value) || value.length !== types.length) {
+        throw new ValidationError(`Invalid ${what}: expected ${typeName(type)} (a list of ${types.length})`);
+      }
+      return value.map((item, index) => toAbiValue(types[index], item, `${what}[${index}]`));
+    }
+    case 'struct':
+      if (isAztecAddressStruct(type)) {
+        return AztecAddress.fromField(toField(value, what));
+      }
+      if (isEthAddressStruct(type)) {
+        return EthAddress.fromString(String(value));
+      }
+      if (isFunctionSelectorStruct(type)) {
+        return FunctionSelector.fromString(String(value));
+      }
+      if (isWrappedFieldStruct(type) && (typeof value !== 'object' || value === null)) {
+        return { inner: toField(value, what) };
+      }
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        throw new ValidationError(`Invalid ${what}: expected ${typeName(type)} as an object with ${type.fields.map((f) => f.name).join(', ')}`);
+      }
+      return Object.fromEntries(type.fields.map((field) => [field.name, toAbiValue(field.type, value[field.name], `${what}.${field.name}`)]));
+    default:
+      return value;
+  }
+}
+
+/**
+ * Check and convert JSON arguments for a function, in ABI order
+ */
+export function encodeFunctionArgs(fn: FunctionAbi, args: any[]): any[] {
+  if (args.length !== fn.parameters.length) {
+    throw new ValidationError(`${describeFunction(fn)} takes ${fn.parameters.length} argument(s), got ${args.length}`);
+  }
+  return fn.parameters.map((param, index) => toAbiValue(param.type, args[index], `argument "${param.name}"`));
+}
+
+/**
+ * Convert a decoded ABI value (bigints, addresses, plain objects) into JSON
+ */
+export function abiValueToJson(type: AbiType, value: any): any {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  switch (type.kind) {
+    case 'field':
+      return typeof value === 'bigint' ? new Fr(value).toString() : value.toString();
+    case 'integer':
+      return value.toString();
+    case 'boolean':
+      return Boolean(value);
+    case 'string':
+      return String(value);
+    case 'array':
+      return Array.from(value, (item) => abiValueToJson(type.type, item));
+    case 'tuple':
+      return type.fields.map((field, index) => abiValueToJson(field, value[index]));
+    case 'struct':
+      // Addresses and selectors are decoded into their classes
+      if (Object.getPrototypeOf(value) !== Object.prototype) {
+        return value.toString();
+      }
+      return Object.fromEntries(type.fields.map((field) => [field.name, abiValueToJson(field.type, value[field.name])]));
+    default:
+      return value;
+  }
+}
+
+/**
+ * Decode the value returned by a simulation: null without return values, else the value (or list of values)
+ */
+export function returnValuesToJson(fn: FunctionAbi, value: any): any {
+  if (fn.returnTypes.length === 0) {
+    return null;
+  }
+  if (fn.returnTypes.length === 1) {
+    return abiValueToJson(fn.returnTypes[0], value);
+  }
+  return fn.returnTypes.map((type, index) => abiValueToJson(type, value?.[index]));
+}
+
+// Helper to parse --args: a JSON array, or comma-separated values
+function parseArgs(args: any): any[] {
+  if (Array.isArray(args)) {
+    return args;
+  }
+  const text = String(args ?? '').trim();
+  if (text.length === 0) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return text.split(',').map((arg) => arg.trim());
+  }
+}
+
+/**
+ * Connect a wallet, create the account (if any), register the contract and build the call
+ */
+async function prepareCall(p: any, progress?: Progress) {
+  const { nodeUrl = getDefaultNodeUrl(), artifact: artifactJson, contractAddress, functionName, args, secretKey, salt } = p;
+  if (!artifactJson) {
+    throw new ValidationError('Artifact is required');
+  }
+  const artifact = loadContractArtifact(artifactJson);
+  const functions = getAllFunctionAbis(artifact);
+  const fn = functions.find((f) => f.name === functionName);
+  if (!fn) {
+    throw new NotFoundError(`Function "${functionName}" not found in ${artifact.name} (available: ${functions.map((f) => f.name).sort().join(', ')})`);
+  }
+  const encodedArgs = encodeFunctionArgs(fn, parseArgs(args));
+  const address = AztecAddress.fromString(contractAddress);
+
+  // Create node client, wait for it to be ready and create a TestWallet (reused within `cazt console`)
+  const { node, wallet } = await connectWallet(nodeUrl, p, progress);
+  let from = AztecAddress.ZERO;
+  if (secretKey) {
+    const account = await wallet.createSchnorrAccount(Fr.fromString(secretKey), salt ? Fr.fromString(salt) : Fr.ZERO);
+    from = account.address;
+    progress?.record('account', { address: from.toString() });
+  }
+  const instance = await node.getContract(address);
+  if (!instance) {
+    throw new NotFoundError(`Contract not found at address ${address.toString()}`);
+  }
+  await wallet.registerContract(instance, artifact);
+  progress?.record('contractRegistered', address.toString());
+  const contract = await Contract.at(address, artifact, wallet);
+  return { node, wallet, artifact, fn, from, address, call: contract.methods[fn.name](...encodedArgs) };
+}
+
+// Helper to parse a "<da>,<l2>" pair of gas amounts or fees
+function parseGasPair(value: string, option: string): [bigint, bigint] {
+  const parts = String(value).split(',').map((part) => part.trim());
+  if (parts.length !== 2 || !parts.every((part) => /^(\d+|0x[0-9a-fA-F]+)$/.test(part))) {
+    throw new ValidationError(`Invalid ${option} "${value}" (expected "<da>,<l2>")`);
+  }
+  return [BigInt(parts[0]), BigInt(parts[1])];
+}
+
+/**
+ * Fee options of a sent transaction: gas limits and max fees as "<da>,<l2>" (unset values are chosen by the wallet)
+ */
+export function parseFeeOptions(p: { gasLimits?: string; teardownGasLimits?: string; maxFeesPerGas?: string; maxPriorityFeesPerGas?: string }): any {
+  const gasSettings: Record<string, Gas | GasFees> = {};
+  if (p.gasLimits) {
+    const [da, l2] = parseGasPair(p.gasLimits, 'gas limits');
+    gasSettings.gasLimits = new Gas(Number(da), Number(l2));
+  }
+  if (p.teardownGasLimits) {
+    const [da, l2] = parseGasPair(p.teardownGasLimits, 'teardown gas limits');
+    gasSettings.teardownGasLimits = new Gas(Number(da), Number(l2));
+  }
+  if (p.maxFeesPerGas) {
+    const [da, l2] = parseGasPair(p.maxFeesPerGas, 'max fees per gas');
+    gasSettings.maxFeesPerGas = new GasFees(da, l2);
+  }
+  if (p.maxPriorityFeesPerGas) {
+    const [da, l2] = parseGasPair(p.maxPriorityFeesPerGas, 'max priority fees per gas');
+    gasSettings.maxPriorityFeesPerGas = new GasFees(da, l2);
+  }
+  return Object.keys(gasSettings).length > 0 ? { gasSettings } : undefined;
+}
+
+/**
+ * Decode the public logs a contract emitted with the events of its artifact (the event selector is the last field)
+ * Logs that match no event are returned with their raw fields.
+ */
+export async function decodePublicEvents(artifact: ContractArtifact, logs: { contractAddress: string; fields: string[] }[]): Promise<any[]> {
+  const events = await Promise.all(((artifact.outputs.structs?.events ?? []) as any[]).map(async (abiType) => {
+    const name = abiType.path.split('::').pop();
+    return { name, abiType, selector: await EventSelector.fromSignature(decodeFunctionSignature(name, abiType.fields)) };
+  }));
+  return logs.map(({ contractAddress, fields }) => {
+    const selector = fields.length > 0 ? EventSelector.fromField(Fr.fromString(fields[fields.length - 1])) : undefined;
+    const event = selector && events.find((candidate) => candidate.selector.equals(selector));
+    if (!event) {
+      return { contractAddress, event: null, fields };
+    }
+    const decoded = decodeFromAbi([event.abiType], fields.map((field) => Fr.fromString(field)));
+    return { contractAddress, event: event.name, fields: abiValueToJson(event.abiType, decoded) };
+  });
+}
+
+/**
+ * Contract function utilities
+ */
+export class InteractionUtils {
+  /**
+   * Simulate a utility, private or public function and decode its return value
+   * Without an account (secretKey) the call is simulated without a sender.
+   */
+  static async simulateFunction(params: string, progress?: Progress): Promise<any> {
+    const p = JSON.parse(params);
+    const { fn, from, address, call } = await prepareCall(p, progress);
+    const result = await call.simulate({ from });
+    return {
+      contract: address.toString(),
+      function: describeFunction(fn),
+      functionType: fn.functionType,
+      from: from.isZero() ? null : from.toString(),
+      result: returnValuesToJson(fn, result),
+    };
+  }
+
+  /**
+   * Send a transaction calling a function from an account, wait for it (unless `wait` is false) and decode the
+   * public events the contract emitted. A reverted or dropped transaction throws a RevertedTxError.
+   * Completed steps (account, tx hash) are recorded in `progress` as they happen.
+   */
+  static async sendFunction(params: string, progress?: Progress): Promise<any> {
+    const p = JSON.parse(params);
+    const { wait = true } = p;
+    if (!p.secretKey) {
+      throw new ValidationError('An account is required to send a transaction');
+    }
+    const { node, artifact, fn, from, address, call } = await prepareCall(p, progress);
+    const sent = call.send({ from, fee: parseFeeOptions(p) });
+    const txHash = (await sent.getTxHash()).toString();
+    progress?.record('txHash', txHash);
+    const output: any = {
+      txHash,
+      contract: address.toString(),
+      function: describeFunction(fn),
+      from: from.toString(),
+      receipt: null,
+      events: [],
+    };
+    if (!wait) {
+      return output;
+    }
+    const receipt = await sent.wait({ dontThrowOnRevert: true });
+    output.receipt = {
+      txHash,
+      status: receipt.status,
+      blockNumber: receipt.blockNumber,
+      transactionFee: receipt.transactionFee?.toString(),
+    };
+    if (receipt.status !== 'success') {
+      throw new RevertedTxError(`Transaction ${txHash} was ${receipt.status}${receipt.error ? `: ${receipt.error}` : ''}`, txHash, receipt.status);
+    }
+    const { logs } = await node.getPublicLogs({ txHash: receipt.txHash });
+    const emitted = logs
+      .filter((log: any) => log.log.contractAddress.equals(address))
+      .map((log: any) => ({
+        contractAddress: log.log.contractAddress.toString(),
+        // getEmittedFields drops the zero padding of fixed-size logs
+        fields: (log.log.getEmittedFields?.() ?? log.log.fields).map((field: Fr) => field.toString()),
+      }));
+    output.events = await decodePublicEvents(artifact, emitted);
+    return output;
+  }
+}
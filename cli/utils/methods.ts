@@ -0,0 +1,493 @@
+import { ValidationError } from './errors.js';
+
+/**
+ * Parameter types understood by the registry
+ * Each type validates a user-provided value and coerces it to what the node expects.
+ */
+export type ParamType =
+  | 'blockNumber'
+  | 'blockParameter'
+  | 'integer'
+  | 'bigint'
+  | 'boolean'
+  | 'field'
+  | 'field[]'
+  | 'aztecAddress'
+  | 'ethAddress'
+  | 'txHash'
+  | 'treeId'
+  | 'slashRound'
+  | 'string'
+  | 'json';
+
+export interface ParamSpec {
+  name: string;
+  type: ParamType;
+  optional?: boolean;
+  description?: string;
+}
+
+export interface MethodSpec {
+  description: string;
+  params: ParamSpec[];
+  /** Shape of the result, for help output */
+  result: string;
+  /** Changes node or chain state (sending txs, admin changes): checked against the pinned network identity first */
+  stateChanging?: boolean;
+}
+
+/** BN254 scalar field modulus: every Fr (and AztecAddress) must be below it */
+const FR_MODULUS = 0x30644e72e131a029b85045b68181585d2833e84879b9709143e1f593f0000001n;
+
+/**
+ * MerkleTreeId enum values, by name
+ */
+export const MERKLE_TREE_IDS: Record<string, number> = {
+  NULLIFIER_TREE: 0,
+  NOTE_HASH_TREE: 1,
+  PUBLIC_DATA_TREE: 2,
+  L1_TO_L2_MESSAGE_TREE: 3,
+  ARCHIVE: 4,
+};
+
+function describeValue(value: any): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+function toInteger(value: any, label: string): number {
+  const asString = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : '';
+  if (/^\d+$/.test(asString)) {
+    return parseInt(asString);
+  }
+  if (/^0x[0-9a-f]+$/i.test(asString)) {
+    return Number(BigInt(asString));
+  }
+  throw new ValidationError(`expected ${label}, got ${describeValue(value)}`);
+}
+
+/**
+ * Hex input is passed through as given (the node accepts unpadded hex); decimal input is converted to hex
+ */
+function toField(value: any, label: string): string {
+  const asString = typeof value === 'number' && Number.isInteger(value) ? String(value) : typeof value === 'string' ? value.trim() : '';
+  let asBigInt: bigint;
+  if (/^0x[0-9a-f]{1,64}$/i.test(asString)) {
+    asBigInt = BigInt(asString);
+  } else if (/^\d+$/.test(asString)) {
+    asBigInt = BigInt(asString);
+  } else {
+    throw new ValidationError(`expected ${label} (0x-prefixed hex, up to 32 bytes), got ${describeValue(value)}`);
+  }
+  if (asBigInt >= FR_MODULUS) {
+    throw new ValidationError(`${describeValue(value)} is not a valid field element (must be below the BN254 modulus)`);
+  }
+  return asString.startsWith('0x') ? asString : `0x${asBigInt.toString(16).padStart(64, '0')}`;
+}
+
+const COERCERS: Record<ParamType, { label: string; coerce: (value: any) => any }> = {
+  blockNumber: {
+    label: 'number',
+    coerce: (value) => toInteger(value, 'a block number'),
+  },
+  blockParameter: {
+    label: 'number | "latest"',
+    coerce: (value) => (value === 'latest' ? 'latest' : toInteger(value, 'a block number or "latest"')),
+  },
+  integer: {
+    label: 'number',
+    coerce: (value) => toInteger(value, 'a non-negative integer'),
+  },
+  bigint: {
+    label: 'bigint',
+    coerce: (value) => {
+      if (typeof value === 'bigint') return value.toString();
+      return BigInt(toIntegerString(value)).toString();
+    },
+  },
+  boolean: {
+    label: 'boolean',
+    coerce: (value) => {
+      if (value === true || value === 'true') return true;
+      if (value === false || value === 'false') return false;
+      throw new ValidationError(`expected true or false, got ${describeValue(value)}`);
+    },
+  },
+  field: {
+    label: 'Fr',
+    coerce: (value) => toField(value, 'a field element'),
+  },
+  'field[]': {
+    label: 'Fr[]',
+    coerce: (value) => {
+      if (!Array.isArray(value)) {
+        throw new ValidationError(`expected an array of field elements, got ${describeValue(value)}`);
+      }
+      return value.map((item, i) => {
+        try {
+          return toField(item, 'a field element');
+        } catch (error: any) {
+          throw new ValidationError(`[${i}]: ${error.message}`);
+        }
+      });
+    },
+  },
+  aztecAddress: {
+    label: 'AztecAddress',
+    coerce: (value) => toField(value, 'an Aztec address'),
+  },
+  ethAddress: {
+    label: 'EthAddress',
+    coerce: (value) => {
+      if (typeof value !== 'string' || !/^0x[0-9a-f]{40}$/i.test(value.trim())) {
+        throw new ValidationError(`expected an Ethereum address (0x + 40 hex digits), got ${describeValue(value)}`);
+      }
+      return value.trim().toLowerCase();
+    },
+  },
+  txHash: {
+    label: 'TxHash',
+    coerce: (value) => toField(value, 'a tx hash'),
+  },
+  treeId: {
+    label: Object.entries(MERKLE_TREE_IDS).map(([name, id]) => `${id}=${name}`).join(' | '),
+    coerce: (value) => {
+      if (typeof value === 'string' && !/^\d+$/.test(value.trim())) {
+        const name = value.trim().toUpperCase().replace(/-/g, '_');
+        const id = MERKLE_TREE_IDS[name] ?? MERKLE_TREE_IDS[`${name}_TREE`];
+        if (id === undefined) {
+          throw new ValidationError(`unknown Merkle tree ${describeValue(value)} (expected one of ${Object.keys(MERKLE_TREE_IDS).join(', ')} or 0-4)`);
+        }
+        return id;
+      }
+      const id = toInteger(value, 'a Merkle tree id');
+      if (!Object.values(MERKLE_TREE_IDS).includes(id)) {
+        throw new ValidationError(`unknown Merkle tree id ${id} (expected 0-4)`);
+      }
+      return id;
+    },
+  },
+  slashRound: {
+    label: '"current" | bigint',
+    coerce: (value) => (value === 'current' ? 'current' : BigInt(toIntegerString(value)).toString()),
+  },
+  string: {
+    label: 'string',
+    coerce: (value) => {
+      if (typeof value !== 'string') {
+        throw new ValidationError(`expected a string, got ${describeValue(value)}`);
+      }
+      return value;
+    },
+  },
+  json: {
+    label: 'object',
+    coerce: (value) => value,
+  },
+};
+
+function toIntegerString(value: any): string {
+  const asString = typeof value === 'number' ? String(value) : typeof value === 'string' ? value.trim() : '';
+  if (/^\d+$/.test(asString) || /^0x[0-9a-f]+$/i.test(asString)) {
+    return asString;
+  }
+  throw new ValidationError(`expected a non-negative integer, got ${describeValue(value)}`);
+}
+
+const block: ParamSpec = { name: 'blockNumber', type: 'blockParameter', description: 'Block number or "latest"' };
+const noParams = (description: string, result: string): MethodSpec => ({ description, params: [], result });
+const siblingPath = (tree: string): MethodSpec => ({
+  description: `Get a sibling path in the ${tree} tree`,
+  params: [block, { name: 'leafIndex', type: 'bigint', description: 'Leaf index' }],
+  result: 'SiblingPath (Fr[])',
+});
+
+/**
+ * Registry of the node_* and nodeAdmin_* JSON-RPC methods used by the CLI
+ */
+export const METHODS: Record<string, MethodSpec> = {
+  node_isReady: noParams('Check if the node is ready', 'boolean'),
+  node_getBlockNumber: noParams('Get the latest block number', 'number'),
+  node_getProvenBlockNumber: noParams('Get the latest proven block number', 'number'),
+  node_getL2Tips: noParams('Get the latest, proven and finalized L2 tips', 'L2Tips'),
+  node_getBlock: {
+    description: 'Get a block by number',
+    params: [block],
+    result: 'L2Block | undefined',
+  },
+  node_getBlocks: {
+    description: 'Get a range of blocks',
+    params: [
+      { name: 'from', type: 'blockNumber', description: 'First block number' },
+      { name: 'limit', type: 'integer', description: 'Max number of blocks' },
+    ],
+    result: 'L2Block[]',
+  },
+  node_getBlockHeader: {
+    description: 'Get a block header (latest when omitted)',
+    params: [{ ...block, optional: true }],
+    result: 'BlockHeader | undefined',
+  },
+  node_sendTx: {
+    description: 'Submit a proven transaction',
+    params: [{ name: 'tx', type: 'json', description: 'Tx' }],
+    result: 'void',
+    stateChanging: true,
+  },
+  node_getTxReceipt: {
+    description: 'Get a transaction receipt',
+    params: [{ name: 'txHash', type: 'txHash' }],
+    result: 'TxReceipt',
+  },
+  node_getTxEffect: {
+    description: 'Get the effect of a mined transaction',
+    params: [{ name: 'txHash', type: 'txHash' }],
+    result: 'IndexedTxEffect | undefined',
+  },
+  node_getTxByHash: {
+    description: 'Get a pending transaction by hash',
+    params: [{ name: 'txHash', type: 'txHash' }],
+    result: 'Tx | undefined',
+  },
+  node_getPendingTxs: {
+    description: 'Get pending transactions',
+    params: [
+      { name: 'limit', type: 'integer', optional: true },
+      { name: 'after', type: 'txHash', optional: true, description: 'Return txs after this hash' },
+    ],
+    result: 'Tx[]',
+  },
+  node_getPendingTxCount: noParams('Get the number of pending transactions', 'number'),
+  node_isValidTx: {
+    description: 'Validate a transaction',
+    params: [
+      { name: 'tx', type: 'json', description: 'Tx' },
+      { name: 'options', type: 'json', optional: true, description: '{ isSimulation?, skipFeeEnforcement? }' },
+    ],
+    result: 'TxValidationResult',
+  },
+  node_simulatePublicCalls: {
+    description: 'Simulate the public part of a transaction',
+    params: [
+      { name: 'tx', type: 'json', description: 'Tx' },
+      { name: 'skipFeeEnforcement', type: 'boolean', optional: true },
+    ],
+    result: 'PublicSimulationOutput',
+  },
+  node_getPublicStorageAt: {
+    description: 'Read a public storage slot',
+    params: [block, { name: 'contract', type: 'aztecAddress' }, { name: 'slot', type: 'field' }],
+    result: 'Fr',
+  },
+  node_getWorldStateSyncStatus: noParams('Get the world state sync status', 'WorldStateSyncStatus'),
+  node_findLeavesIndexes: {
+    description: 'Find the indexes of leaves in a Merkle tree',
+    params: [block, { name: 'treeId', type: 'treeId' }, { name: 'leaves', type: 'field[]' }],
+    result: '(InBlock<bigint> | undefined)[]',
+  },
+  node_getNullifierSiblingPath: siblingPath('nullifier'),
+  node_getNoteHashSiblingPath: siblingPath('note hash'),
+  node_getArchiveSiblingPath: siblingPath('archive'),
+  node_getPublicDataSiblingPath: siblingPath('public data'),
+  node_getNullifierMembershipWitness: {
+    description: 'Get a nullifier membership witness',
+    params: [block, { name: 'nullifier', type: 'field' }],
+    result: 'NullifierMembershipWitness | undefined',
+  },
+  node_getLowNullifierMembershipWitness: {
+    description: 'Get a low nullifier membership witness (non-inclusion proof)',
+    params: [block, { name: 'nullifier', type: 'field' }],
+    result: 'NullifierMembershipWitness | undefined',
+  },
+  node_getPublicDataWitness: {
+    description: 'Get a public data tree witness',
+    params: [block, { name: 'leafSlot', type: 'field' }],
+    result: 'PublicDataWitness | undefined',
+  },
+  node_getArchiveMembershipWitness: {
+    description: 'Get an archive tree membership witness',
+    params: [block, { name: 'archive', type: 'field', description: 'Archive leaf (block hash)' }],
+    result: 'MembershipWitness | undefined',
+  },
+  node_getNoteHashMembershipWitness: {
+    description: 'Get a note hash membership witness',
+    params: [block, { name: 'noteHash', type: 'field' }],
+    result: 'MembershipWitness | undefined',
+  },
+  node_getL1ToL2MessageMembershipWitness: {
+    description: 'Get an L1->L2 message membership witness',
+    params: [block, { name: 'l1ToL2Message', type: 'field' }],
+    result: '[bigint, SiblingPath] | undefined',
+  },
+  node_getL1ToL2MessageBlock: {
+    description: 'Get the block in which an L1->L2 message is available',
+    params: [{ name: 'l1ToL2Message', type: 'field' }],
+    result: 'number | undefined',
+  },
+  node_isL1ToL2MessageSynced: {
+    description: 'Check if an L1->L2 message is synced',
+    params: [{ name: 'l1ToL2Message', type: 'field' }],
+    result: 'boolean',
+  },
+  node_getL2ToL1Messages: {
+    description: 'Get the L2->L1 messages of a block',
+    params: [block],
+    result: 'Fr[][][] | undefined',
+  },
+  node_getPrivateLogs: {
+    description: 'Get private logs',
+    params: [
+      { name: 'from', type: 'blockNumber', description: 'First block number' },
+      { name: 'limit', type: 'integer', description: 'Max number of blocks' },
+    ],
+    result: 'PrivateLog[]',
+  },
+  node_getPublicLogs: {
+    description: 'Get public logs matching a filter',
+    params: [{ name: 'filter', type: 'json', description: 'LogFilter { txHash?, fromBlock?, toBlock?, afterLog?, contractAddress? }' }],
+    result: 'GetPublicLogsResponse',
+  },
+  node_getContractClassLogs: {
+    description: 'Get contract class logs matching a filter',
+    params: [{ name: 'filter', type: 'json', description: 'LogFilter' }],
+    result: 'GetContractClassLogsResponse',
+  },
+  node_getLogsByTags: {
+    description: 'Get logs by tags',
+    params: [{ name: 'tags', type: 'field[]' }, { name: 'logsPerTag', type: 'integer', optional: true }],
+    result: 'TxScopedL2Log[][]',
+  },
+  node_getContractClass: {
+    description: 'Get a contract class by id',
+    params: [{ name: 'id', type: 'field', description: 'Contract class id' }],
+    result: 'ContractClassPublic | undefined',
+  },
+  node_getContract: {
+    description: 'Get a contract instance by address',
+    params: [{ name: 'address', type: 'aztecAddress' }],
+    result: 'ContractInstanceWithAddress | undefined',
+  },
+  node_getNodeInfo: noParams('Get node info', 'NodeInfo'),
+  node_getNodeVersion: noParams('Get the node software version', 'string'),
+  node_getVersion: noParams('Get the rollup version', 'number'),
+  node_getChainId: noParams('Get the L1 chain id', 'number'),
+  node_getL1ContractAddresses: noParams('Get the L1 contract addresses', 'L1ContractAddresses'),
+  node_getProtocolContractAddresses: noParams('Get the protocol contract addresses', 'ProtocolContractAddresses'),
+  node_getEncodedEnr: noParams('Get the encoded ENR of the node', 'string | undefined'),
+  node_getCurrentBaseFees: noParams('Get the current base fees', 'GasFees'),
+  node_getValidatorsStats: noParams('Get stats for all validators', 'ValidatorsStats'),
+  node_getValidatorStats: {
+    description: 'Get stats for one validator',
+    params: [
+      { name: 'validatorAddress', type: 'ethAddress' },
+      { name: 'fromSlot', type: 'bigint', optional: true },
+      { name: 'toSlot', type: 'bigint', optional: true },
+    ],
+    result: 'SingleValidatorStats | undefined',
+  },
+  node_registerContractFunctionSignatures: {
+    description: 'Register function signatures for debug output',
+    params: [{ name: 'signatures', type: 'json', description: 'string[]' }],
+    result: 'void',
+  },
+  node_getAllowedPublicSetup: noParams('Get the allowed public setup functions', 'AllowedElement[]'),
+  nodeAdmin_getConfig: noParams('Get the node config', 'AztecNodeAdminConfig'),
+  nodeAdmin_setConfig: {
+    description: 'Update the node config',
+    params: [{ name: 'config', type: 'json', description: 'Partial AztecNodeAdminConfig' }],
+    result: 'void',
+    stateChanging: true,
+  },
+  nodeAdmin_pauseSync: { ...noParams('Pause archiver and world state sync', 'void'), stateChanging: true },
+  nodeAdmin_resumeSync: { ...noParams('Resume archiver and world state sync', 'void'), stateChanging: true },
+  nodeAdmin_rollbackTo: {
+    description: 'Roll back the node to a block',
+    params: [{ name: 'targetBlockNumber', type: 'blockNumber' }, { name: 'force', type: 'boolean', optional: true }],
+    result: 'void',
+    stateChanging: true,
+  },
+  nodeAdmin_startSnapshotUpload: {
+    description: 'Start uploading a snapshot',
+    params: [{ name: 'location', type: 'string' }],
+    result: 'void',
+    stateChanging: true,
+  },
+  nodeAdmin_getSlashPayloads: noParams('Get slash payloads', 'SlashPayloadRound[]'),
+  nodeAdmin_getSlashOffenses: {
+    description: 'Get slash offenses for a round',
+    params: [{ name: 'round', type: 'slashRound' }],
+    result: 'Offense[]',
+  },
+};
+
+export function isKnownMethod(method: string): boolean {
+  return method in METHODS;
+}
+
+/**
+ * Whether a method changes node or chain state; methods missing from the registry are assumed to
+ */
+export function isStateChangingMethod(method: string): boolean {
+  return !isKnownMethod(method) || METHODS[method].stateChanging === true;
+}
+
+/**
+ * Validate and coerce params for a known method
+ * Optional params may be omitted, null or undefined; unknown methods are returned unchanged.
+ */
+export function validateParams(method: string, params: any[]): any[] {
+  const spec = METHODS[method];
+  if (!spec) {
+    return params;
+  }
+  if (!Array.isArray(params)) {
+    throw new ValidationError(`Invalid params for ${method}: expected a JSON array`);
+  }
+  if (params.length > spec.params.length) {
+    throw new ValidationError(`Invalid params for ${method}: expected at most ${spec.params.length} params, got ${params.length} (${formatSignature(method)})`);
+  }
+  const missing = spec.params.find((param, i) => !param.optional && (params[i] === undefined || params[i] === null));
+  if (missing) {
+    throw new ValidationError(`Invalid params for ${method}: missing required param "${missing.name}" (${formatSignature(method)})`);
+  }
+  return params.map((value, i) => {
+    const param = spec.params[i];
+    if (value === undefined || value === null) {
+      return value;
+    }
+    try {
+      return COERCERS[param.type].coerce(value);
+    } catch (error: any) {
+      throw new ValidationError(`Invalid params for ${method}: ${param.name}: ${error.message}`);
+    }
+  });
+}
+
+/**
+ * One-line signature, e.g. `node_getBlock(blockNumber: number | "latest") -> L2Block | undefined`
+ */
+export function formatSignature(method: string): string {
+  const spec = METHODS[method];
+  const params = spec.params.map((p) => `${p.name}${p.optional ? '?' : ''}: ${COERCERS[p.type].label}`).join(', ');
+  return `${method}(${params}) -> ${spec.result}`;
+}
+
+/**
+ * Method help as a plain object (for JSON output)
+ */
+export function describeMethod(method: string): any {
+  const spec = METHODS[method];
+  if (!spec) {
+    throw new ValidationError(`Unknown method: ${method}`);
+  }
+  return {
+    method,
+    description: spec.description,
+    params: spec.params.map((p) => ({
+      name: p.name,
+      type: COERCERS[p.type].label,
+      optional: p.optional || false,
+      ...(p.description ? { description: p.description } : {}),
+    })),
+    result: spec.result,
+  };
+}
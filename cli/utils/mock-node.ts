@@ -0,0 +1,441 @@
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { AddressInfo } from 'net';
+import { FixtureStore } from './fixtures.js';
+import { RpcError } from './errors.js';
+import { MERKLE_TREE_IDS } from './methods.js';
+
+/**
+ * In-memory state served by the mock node
+ * Keys of hash/address maps are matched case-insensitively.
+ */
+export interface MockNodeState {
+  blockNumber?: number;
+  provenBlockNumber?: number;
+  chainId?: number;
+  version?: number;
+  nodeVersion?: string;
+  /** Blocks by block number */
+  blocks?: Record<string, any>;
+  /** Block headers by block number (falls back to blocks[n].header) */
+  blockHeaders?: Record<string, any>;
+  /** Tx receipts by tx hash */
+  txReceipts?: Record<string, any>;
+  /** Tx effects by tx hash */
+  txEffects?: Record<string, any>;
+  /** Txs by tx hash */
+  txs?: Record<string, any>;
+  /** Pending txs */
+  pendingTxs?: any[];
+  /** Public storage values by contract address, then storage slot */
+  publicStorage?: Record<string, Record<string, string>>;
+  /** Contract instances by address */
+  contracts?: Record<string, any>;
+  /** Contract classes by class id */
+  contractClasses?: Record<string, any>;
+  /** Admin config returned by nodeAdmin_getConfig and updated by nodeAdmin_setConfig */
+  adminConfig?: Record<string, any>;
+  /** L1 contract addresses by name (node_getL1ContractAddresses, node_getNodeInfo) */
+  l1ContractAddresses?: Record<string, string>;
+  /** Protocol contract addresses by name (node_getProtocolContractAddresses, node_getNodeInfo) */
+  protocolContractAddresses?: Record<string, string>;
+  /** Encoded ENR of the node */
+  enr?: string;
+  /** Current base fees (zero by default) */
+  baseFees?: { feePerDaGas: string; feePerL2Gas: string };
+  /** Leaves of each Merkle tree by tree id, in leaf index order (public data leaves are slots) */
+  treeLeaves?: Record<string, string[]>;
+  /** Block in which each L1->L2 message (by message hash) is available */
+  l1ToL2Messages?: Record<string, number>;
+  /** L2->L1 messages by block number */
+  l2ToL1Messages?: Record<string, any>;
+  /** Private logs by block number */
+  privateLogs?: Record<string, any[]>;
+  /** Public logs ({ id: { blockNumber, txHash }, log: { contractAddress, ... } }), filtered by node_getPublicLogs */
+  publicLogs?: any[];
+  /** Contract class logs, same shape and filter as publicLogs */
+  contractClassLogs?: any[];
+  /** Logs by tag */
+  taggedLogs?: Record<string, any[]>;
+  /** Validator stats returned by node_getValidatorsStats; node_getValidatorStats reads one of its stats */
+  validatorsStats?: { stats: Record<string, any>; lastProcessedSlot?: any; initialSlot?: any; slotWindow?: number };
+  /** Allowed public setup functions */
+  allowedPublicSetup?: any[];
+  /** Slash payloads */
+  slashPayloads?: any[];
+  /** Slash offenses by round */
+  slashOffenses?: Record<string, any[]>;
+  /** HTTP errors answered to the next requests, one per request (e.g. `[{ "status": 429, "retryAfter": "1" }]`) */
+  httpErrors?: { status: number; retryAfter?: string }[];
+  /** Fixed results for any other method, by method name */
+  methods?: Record<string, any>;
+}
+
+export interface MockNodeOptions {
+  port?: number;
+  host?: string;
+  /** Directory of fixtures recorded with --record (`<dir>/<method>/<paramsHash>.json` or `<dir>/<method>/default.json`) */
+  fixtures?: string;
+  /** Scripted in-memory state */
+  state?: MockNodeState;
+  /** Called for every handled request, with the HTTP headers it was sent with */
+  onRequest?: (method: string, params: any[], response: { result?: any; error?: any }, headers: IncomingHttpHeaders) => void;
+}
+
+export interface MockNode {
+  url: string;
+  server: Server;
+  state: MockNodeState;
+  close(): Promise<void>;
+}
+
+const ZERO_FIELD = '0x0000000000000000000000000000000000000000000000000000000000000000';
+const ZERO_GAS = { daGas: 0, l2Gas: 0 };
+
+/** Height of the zero-filled sibling paths served for every tree */
+const SIBLING_PATH_HEIGHT = 4;
+
+/** JSON-RPC error returned for methods that have neither a fixture, a scripted result nor a handler */
+class MethodNotFound extends Error {}
+
+function lookup(map: Record<string, any> | undefined, key: any): any {
+  if (!map || key === undefined || key === null) {
+    return undefined;
+  }
+  const wanted = String(key).toLowerCase();
+  const match = Object.keys(map).find((k) => k.toLowerCase() === wanted);
+  return match !== undefined ? map[match] : undefined;
+}
+
+function resolveBlockNumber(state: MockNodeState, block: any): number {
+  if (block === undefined || block === null || block === 'latest') {
+    return state.blockNumber ?? 0;
+  }
+  return Number(block);
+}
+
+function sameField(a: any, b: any): boolean {
+  try {
+    return BigInt(a) === BigInt(b);
+  } catch {
+    return String(a).toLowerCase() === String(b).toLowerCase();
+  }
+}
+
+function siblingPath(): string[] {
+  return Array(SIBLING_PATH_HEIGHT).fill(ZERO_FIELD);
+}
+
+function treeLeaves(state: MockNodeState, treeId: number): string[] {
+  return lookup(state.treeLeaves, treeId) ?? [];
+}
+
+function leafIndex(state: MockNodeState, treeId: number, leaf: any): number {
+  return treeLeaves(state, treeId).findIndex((candidate) => sameField(candidate, leaf));
+}
+
+function membershipWitness(state: MockNodeState, treeId: number, leaf: any): any {
+  const index = leafIndex(state, treeId, leaf);
+  return index < 0 ? null : { leafIndex: String(index), siblingPath: siblingPath() };
+}
+
+function nullifierWitness(state: MockNodeState, index: number): any {
+  const leaves = treeLeaves(state, MERKLE_TREE_IDS.NULLIFIER_TREE);
+  const nullifier = BigInt(leaves[index]);
+  // The next nullifier is the smallest leaf above this one (0 for the highest)
+  const next = leaves.map((leaf, i) => ({ value: BigInt(leaf), index: i })).filter((leaf) => leaf.value > nullifier).sort((a, b) => (a.value < b.value ? -1 : 1))[0];
+  return {
+    index: String(index),
+    leafPreimage: { nullifier: leaves[index], nextNullifier: next ? leaves[next.index] : ZERO_FIELD, nextIndex: String(next?.index ?? 0) },
+    siblingPath: siblingPath(),
+  };
+}
+
+function filterLogs(logs: any[] | undefined, filter: any = {}): { logs: any[]; maxLogsHit: boolean } {
+  const matches = (logs ?? []).filter((entry) =>
+    (filter.txHash === undefined || sameField(entry.id?.txHash, filter.txHash)) &&
+    (filter.contractAddress === undefined || sameField(entry.log?.contractAddress, filter.contractAddress)) &&
+    (filter.fromBlock === undefined || Number(entry.id?.blockNumber) >= Number(filter.fromBlock)) &&
+    (filter.toBlock === undefined || Number(entry.id?.blockNumber) < Number(filter.toBlock)));
+  return { logs: matches, maxLogsHit: false };
+}
+
+/**
+ * Built-in handlers for the node_* / nodeAdmin_* methods, backed by the scripted state
+ */
+const HANDLERS: Record<string, (state: MockNodeState, params: any[]) => any> = {
+  node_isReady: () => true,
+  node_getBlockNumber: (state) => state.blockNumber ?? 0,
+  node_getProvenBlockNumber: (state) => state.provenBlockNumber ?? state.blockNumber ?? 0,
+  node_getL2Tips: (state) => {
+    const latest = state.blockNumber ?? 0;
+    const proven = state.provenBlockNumber ?? latest;
+    const hashOf = (n: number) => lookup(state.blocks, n)?.hash ?? ZERO_FIELD;
+    return {
+      latest: { number: latest, hash: hashOf(latest) },
+      proven: { number: proven, hash: hashOf(proven) },
+      finalized: { number: proven, hash: hashOf(proven) },
+    };
+  },
+  node_getBlock: (state, [block]) => lookup(state.blocks, resolveBlockNumber(state, block)) ?? null,
+  node_getBlocks: (state, [from, limit]) => {
+    const blocks = [];
+    for (let n = Number(from); n < Number(from) + Number(limit); n++) {
+      const block = lookup(state.blocks, n);
+      if (block === undefined) break;
+      blocks.push(block);
+    }
+    return blocks;
+  },
+  node_getBlockHeader: (state, [block]) => {
+    const n = resolveBlockNumber(state, block);
+    return lookup(state.blockHeaders, n) ?? lookup(state.blocks, n)?.header ?? null;
+  },
+  node_getChainId: (state) => state.chainId ?? 31337,
+  node_getVersion: (state) => state.version ?? 1,
+  node_getNodeVersion: (state) => state.nodeVersion ?? 'mock',
+  node_getNodeInfo: (state) => ({
+    nodeVersion: state.nodeVersion ?? 'mock',
+    l1ChainId: state.chainId ?? 31337,
+    rollupVersion: state.version ?? 1,
+    enr: state.enr,
+    l1ContractAddresses: state.l1ContractAddresses ?? {},
+    protocolContractAddresses: state.protocolContractAddresses ?? {},
+  }),
+  node_getL1ContractAddresses: (state) => state.l1ContractAddresses ?? {},
+  node_getProtocolContractAddresses: (state) => state.protocolContractAddresses ?? {},
+  node_getEncodedEnr: (state) => state.enr ?? null,
+  node_getCurrentBaseFees: (state) => state.baseFees ?? { feePerDaGas: '0x00', feePerL2Gas: '0x00' },
+  node_getTxReceipt: (state, [hash]) => lookup(state.txReceipts, hash) ?? {
+    txHash: hash,
+    status: 'dropped',
+    error: 'Tx not found',
+  },
+  node_getTxEffect: (state, [hash]) => lookup(state.txEffects, hash) ?? null,
+  node_getTxByHash: (state, [hash]) => lookup(state.txs, hash) ?? null,
+  node_getPendingTxs: (state) => state.pendingTxs ?? [],
+  node_getPendingTxCount: (state) => (state.pendingTxs ?? []).length,
+  // Sent txs wait in the pending pool: the mock node never mines
+  node_sendTx: (state, [tx]) => {
+    state.pendingTxs = [...(state.pendingTxs ?? []), tx];
+    return null;
+  },
+  node_isValidTx: () => ({ result: 'valid' }),
+  node_simulatePublicCalls: () => ({
+    revertReason: undefined,
+    publicReturnValues: [],
+    gasUsed: { totalGas: ZERO_GAS, teardownGas: ZERO_GAS, publicGas: ZERO_GAS, billedGas: ZERO_GAS },
+  }),
+  node_getPublicStorageAt: (state, [, contract, slot]) => lookup(lookup(state.publicStorage, contract), slot) ?? ZERO_FIELD,
+  node_getContract: (state, [address]) => lookup(state.contracts, address) ?? null,
+  node_getContractClass: (state, [id]) => lookup(state.contractClasses, id) ?? null,
+  node_findLeavesIndexes: (state, [block, treeId, leaves]) => (leaves ?? []).map((leaf: any) => {
+    const index = leafIndex(state, Number(treeId), leaf);
+    const blockNumber = resolveBlockNumber(state, block);
+    return index < 0 ? null : { l2BlockNumber: blockNumber, l2BlockHash: lookup(state.blocks, blockNumber)?.hash ?? ZERO_FIELD, data: String(index) };
+  }),
+  node_getNullifierSiblingPath: () => siblingPath(),
+  node_getNoteHashSiblingPath: () => siblingPath(),
+  node_getArchiveSiblingPath: () => siblingPath(),
+  node_getPublicDataSiblingPath: () => siblingPath(),
+  node_getNullifierMembershipWitness: (state, [, nullifier]) => {
+    const index = leafIndex(state, MERKLE_TREE_IDS.NULLIFIER_TREE, nullifier);
+    return index < 0 ? null : nullifierWitness(state, index);
+  },
+  // The low nullifier is the highest leaf below the nullifier
+  node_getLowNullifierMembershipWitness: (state, [, nullifier]) => {
+    const leaves = treeLeaves(state, MERKLE_TREE_IDS.NULLIFIER_TREE);
+    let low = -1;
+    leaves.forEach((leaf, i) => {
+      if (BigInt(leaf) < BigInt(nullifier) && (low < 0 || BigInt(leaf) > BigInt(leaves[low]))) {
+        low = i;
+      }
+    });
+    return low < 0 ? null : nullifierWitness(state, low);
+  },
+  node_getPublicDataWitness: (state, [block, leafSlot]) => {
+    const index = leafIndex(state, MERKLE_TREE_IDS.PUBLIC_DATA_TREE, leafSlot);
+    if (index < 0) {
+      return null;
+    }
+    const value = Object.values(state.publicStorage ?? {}).map((slots) => lookup(slots, leafSlot)).find((v) => v !== undefined);
+    return {
+      index: String(index),
+      leafPreimage: { slot: leafSlot, value: value ?? ZERO_FIELD, nextSlot: ZERO_FIELD, nextIndex: '0' },
+      siblingPath: siblingPath(),
+      blockNumber: resolveBlockNumber(state, block),
+    };
+  },
+  node_getArchiveMembershipWitness: (state, [, archive]) => membershipWitness(state, MERKLE_TREE_IDS.ARCHIVE, archive),
+  node_getNoteHashMembershipWitness: (state, [, noteHash]) => membershipWitness(state, MERKLE_TREE_IDS.NOTE_HASH_TREE, noteHash),
+  node_getL1ToL2MessageMembershipWitness: (state, [block, message]) => {
+    const available = lookup(state.l1ToL2Messages, message);
+    if (available === undefined || available > resolveBlockNumber(state, block)) {
+      return null;
+    }
+    const index = Object.keys(state.l1ToL2Messages!).findIndex((hash) => sameField(hash, message));
+    return [String(index), siblingPath()];
+  },
+  node_getL1ToL2MessageBlock: (state, [message]) => lookup(state.l1ToL2Messages, message) ?? null,
+  node_isL1ToL2MessageSynced: (state, [message]) => {
+    const available = lookup(state.l1ToL2Messages, message);
+    return available !== undefined && available <= (state.blockNumber ?? 0);
+  },
+  node_getL2ToL1Messages: (state, [block]) => lookup(state.l2ToL1Messages, resolveBlockNumber(state, block)) ?? null,
+  node_getPrivateLogs: (state, [from, limit]) => {
+    const logs = [];
+    for (let n = Number(from); n < Number(from) + Number(limit); n++) {
+      logs.push(...(lookup(state.privateLogs, n) ?? []));
+    }
+    return logs;
+  },
+  node_getPublicLogs: (state, [filter]) => filterLogs(state.publicLogs, filter),
+  node_getContractClassLogs: (state, [filter]) => filterLogs(state.contractClassLogs, filter),
+  node_getLogsByTags: (state, [tags, logsPerTag]) =>
+    (tags ?? []).map((tag: any) => (lookup(state.taggedLogs, tag) ?? []).slice(0, logsPerTag ?? undefined)),
+  node_getValidatorsStats: (state) => state.validatorsStats ?? { stats: {}, slotWindow: 0 },
+  node_getValidatorStats: (state, [address]) => {
+    const stats = state.validatorsStats;
+    const validator = lookup(stats?.stats, address);
+    if (!validator) {
+      return null;
+    }
+    return {
+      validator,
+      allTimeProvenPerformance: [],
+      lastProcessedSlot: stats!.lastProcessedSlot,
+      initialSlot: stats!.initialSlot,
+      slotWindow: stats!.slotWindow ?? 0,
+    };
+  },
+  node_registerContractFunctionSignatures: () => null,
+  node_getAllowedPublicSetup: (state) => state.allowedPublicSetup ?? [],
+  node_getWorldStateSyncStatus: (state) => ({
+    latestBlockNumber: state.blockNumber ?? 0,
+    latestBlockHash: lookup(state.blocks, state.blockNumber ?? 0)?.hash ?? ZERO_FIELD,
+    finalisedBlockNumber: state.provenBlockNumber ?? state.blockNumber ?? 0,
+    oldestHistoricBlockNumber: 0,
+    treesAreSynched: true,
+  }),
+  nodeAdmin_getConfig: (state) => state.adminConfig ?? {},
+  nodeAdmin_setConfig: (state, [config]) => {
+    state.adminConfig = { ...(state.adminConfig ?? {}), ...config };
+    return null;
+  },
+  nodeAdmin_pauseSync: () => null,
+  nodeAdmin_resumeSync: () => null,
+  nodeAdmin_rollbackTo: (state, [target]) => {
+    state.blockNumber = Number(target);
+    state.provenBlockNumber = Math.min(state.provenBlockNumber ?? state.blockNumber, state.blockNumber);
+    return null;
+  },
+  nodeAdmin_startSnapshotUpload: () => null,
+  nodeAdmin_getSlashPayloads: (state) => state.slashPayloads ?? [],
+  nodeAdmin_getSlashOffenses: (state, [round]) => lookup(state.slashOffenses, round) ?? [],
+};
+
+/**
+ * Resolve a single call: recorded fixtures first, then scripted results, then built-in handlers
+ */
+function handleCall(options: MockNodeOptions, state: MockNodeState, method: string, params: any[]): any {
+  if (options.fixtures) {
+    const store = new FixtureStore(options.fixtures);
+    const fixture = store.read(method, params) ?? readDefaultFixture(options.fixtures, method);
+    if (fixture) {
+      if (fixture.error !== undefined) {
+        throw new RpcError(fixture.error);
+      }
+      return fixture.result;
+    }
+  }
+  if (state.methods && method in state.methods) {
+    return state.methods[method];
+  }
+  const handler = HANDLERS[method];
+  if (!handler) {
+    throw new MethodNotFound(`Method not found: ${method}`);
+  }
+  return handler(state, params);
+}
+
+function readDefaultFixture(dir: string, method: string): { result?: any; error?: any } | undefined {
+  const path = join(dir, method, 'default.json');
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) : undefined;
+}
+
+function handleRequest(options: MockNodeOptions, state: MockNodeState, request: any, headers: IncomingHttpHeaders): any {
+  const id = request?.id ?? null;
+  if (!request || typeof request.method !== 'string') {
+    return { jsonrpc: '2.0', id, error: { code: -32600, message: 'Invalid request' } };
+  }
+  const params = Array.isArray(request.params) ? request.params : [];
+  let response: { result?: any; error?: any };
+  try {
+    response = { result: handleCall(options, state, request.method, params) ?? null };
+  } catch (error: any) {
+    if (error instanceof MethodNotFound) {
+      response = { error: { code: -32601, message: error.message } };
+    } else if (error instanceof RpcError) {
+      response = { error: error.payload };
+    } else {
+      response = { error: { code: -32603, message: error?.message ?? String(error) } };
+    }
+  }
+  options.onRequest?.(request.method, params, response, headers);
+  return { jsonrpc: '2.0', id, ...response };
+}
+
+/**
+ * Start a local JSON-RPC server implementing the node_* and nodeAdmin_* methods used by the CLI
+ * Supports single requests and JSON-RPC batches.
+ */
+export async function startMockNode(options: MockNodeOptions = {}): Promise<MockNode> {
+  const state: MockNodeState = options.state ?? {};
+
+  const server = createServer((req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405).end();
+      return;
+    }
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      const failure = state.httpErrors?.shift();
+      if (failure) {
+        res.writeHead(failure.status, failure.retryAfter !== undefined ? { 'Retry-After': failure.retryAfter } : {});
+        res.end();
+        return;
+      }
+      let payload: any;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+        return;
+      }
+      const response = Array.isArray(payload)
+        ? payload.map((request) => handleRequest(options, state, request, req.headers))
+        : handleRequest(options, state, payload, req.headers);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 8080, options.host ?? '127.0.0.1', () => resolve());
+  });
+
+  const { address, port } = server.address() as AddressInfo;
+  const host = address.includes(':') ? `[${address}]` : address;
+  return {
+    url: `http://${host}:${port}`,
+    server,
+    state,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
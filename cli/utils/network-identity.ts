@@ -0,0 +1,53 @@
+import { NetworkConfig } from '../config/index.js';
+import { NetworkMismatchError } from './errors.js';
+import { RpcClient } from './rpc.js';
+
+export interface ChainIdentity {
+  chainId: number;
+  rollupVersion: number;
+}
+
+/**
+ * Read the chain identity (L1 chain id, rollup version) and L1 contract addresses of a node
+ */
+export async function fetchNetworkIdentity(client: RpcClient): Promise<ChainIdentity & { l1ContractAddresses: Record<string, string> }> {
+  const [chainId, rollupVersion, l1ContractAddresses] = await Promise.all([
+    client.call('node_getChainId', []),
+    client.call('node_getVersion', []),
+    client.call('node_getL1ContractAddresses', []),
+  ]);
+  return { chainId: Number(chainId), rollupVersion: Number(rollupVersion), l1ContractAddresses: l1ContractAddresses ?? {} };
+}
+
+/**
+ * Check that a node reports the chain identity pinned for its network, and the pinned L1 rollup address
+ * (a redeployed rollup can keep chain id and version)
+ * Returns the reported identity (undefined when nothing is pinned), throws NetworkMismatchError otherwise.
+ */
+export async function verifyNetworkIdentity(client: RpcClient, network: NetworkConfig & { name: string }): Promise<ChainIdentity | undefined> {
+  const pinnedRollup = network.l1ContractAddresses?.rollupAddress;
+  if (network.chainId === undefined && network.rollupVersion === undefined && pinnedRollup === undefined) {
+    return undefined;
+  }
+  const [chainId, rollupVersion, l1ContractAddresses] = await Promise.all([
+    client.call('node_getChainId', []).then(Number),
+    client.call('node_getVersion', []).then(Number),
+    pinnedRollup !== undefined ? client.call('node_getL1ContractAddresses', []) : undefined,
+  ]);
+
+  const mismatches: string[] = [];
+  if (network.chainId !== undefined && chainId !== Number(network.chainId)) {
+    mismatches.push(`chain id ${chainId} (pinned: ${network.chainId})`);
+  }
+  if (network.rollupVersion !== undefined && rollupVersion !== Number(network.rollupVersion)) {
+    mismatches.push(`rollup version ${rollupVersion} (pinned: ${network.rollupVersion})`);
+  }
+  const rollupAddress = l1ContractAddresses?.rollupAddress;
+  if (pinnedRollup !== undefined && String(rollupAddress).toLowerCase() !== pinnedRollup.toLowerCase()) {
+    mismatches.push(`rollup address ${rollupAddress} (pinned: ${pinnedRollup})`);
+  }
+  if (mismatches.length > 0) {
+    throw new NetworkMismatchError(`Refusing to proceed: node at ${network.rpcUrl} reports ${mismatches.join(' and ')} for network "${network.name}"`);
+  }
+  return { chainId, rollupVersion };
+}
@@ -0,0 +1,106 @@
+import fetch from 'node-fetch';
+import { createAztecNodeClient } from '@aztec/aztec.js/node';
+import { jsonStringify } from '@aztec/foundation/json-rpc';
+import { RpcError, TransportError } from './errors.js';
+import { RetryOptions, parseRetryAfter, resolveRetryOptions, withRetry } from './retry.js';
+import { traceRequest } from './trace.js';
+import { parseTimeout, withTimeout } from './timeout.js';
+
+/**
+ * Options shared by every Aztec node client created by the utilities
+ * (passed through the JSON params of fetchNotes, verifyNoteInTransaction, deployContract)
+ */
+export interface NodeClientOptions {
+  retries?: number | string;
+  retryDelay?: number | string;
+  /** Extra HTTP headers (e.g. authentication) sent with every request */
+  headers?: Record<string, string>;
+  /** Print every request the node client sends to stderr */
+  trace?: boolean;
+  /** Timeout for each request attempt in milliseconds (0 or unset: no timeout) */
+  timeout?: number | string;
+  /** How long to wait for the node to become ready in milliseconds (0 or unset: no limit) */
+  readyTimeout?: number | string;
+}
+
+/**
+ * Send one request, mirroring `defaultFetch` from @aztec/foundation: resolves with the parsed body and response headers
+ */
+async function postOnce(host: string, body: unknown, headers: Record<string, string>, signal?: AbortSignal) {
+  let response;
+  try {
+    response = await fetch(host, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: jsonStringify(body),
+      signal,
+    });
+  } catch (error: any) {
+    throw new TransportError(`Request to ${host} failed: ${error.message}`);
+  }
+
+  const text = await response.text().catch(() => '');
+  let responseJson: any;
+  try {
+    responseJson = JSON.parse(text);
+  } catch {
+    if (!response.ok) {
+      throw new TransportError(
+        `HTTP error! status: ${response.status}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after')),
+      );
+    }
+    throw new Error(`Failed to parse body as JSON: ${text}`);
+  }
+
+  if (!response.ok) {
+    if (responseJson?.error) {
+      throw new RpcError(responseJson.error);
+    }
+    throw new TransportError(
+      `HTTP error! status: ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers.get('retry-after')),
+    );
+  }
+
+  return { response: responseJson, headers: response.headers, status: response.status, bytes: Buffer.byteLength(text) };
+}
+
+/**
+ * Build a fetch function compatible with the Aztec JSON-RPC client that applies our retry policy, headers and tracing
+ */
+function makeNodeFetch(retryOptions: RetryOptions, headers: Record<string, string>, trace: boolean, timeout?: number) {
+  return async (host: string, body: unknown, extraHeaders: Record<string, string> = {}, noRetry = false) => {
+    const policy = noRetry ? { ...retryOptions, retries: 0 } : retryOptions;
+    return withRetry(async (attempt) => {
+      const started = Date.now();
+      try {
+        const result = await withTimeout(
+          timeout,
+          `Request to ${host} timed out after ${timeout}ms`,
+          (signal) => postOnce(host, body, { ...headers, ...extraHeaders }, signal),
+        );
+        if (trace) {
+          const error = result.response?.error ? new RpcError(result.response.error).message : undefined;
+          traceRequest({ url: host, body, attempt, ms: Date.now() - started, status: result.status, bytes: result.bytes, error });
+        }
+        return { response: result.response, headers: result.headers };
+      } catch (error: any) {
+        if (trace) {
+          traceRequest({ url: host, body, attempt, ms: Date.now() - started, status: error.status, error: error.message });
+        }
+        throw error;
+      }
+    }, policy);
+  };
+}
+
+/**
+ * Create an Aztec node client that uses the CLI's retry policy, extra headers and tracing for every request
+ */
+export function createNodeClient(nodeUrl: string, options: NodeClientOptions = {}) {
+  const timeout = parseTimeout(options.timeout);
+  return createAztecNodeClient(nodeUrl, {}, makeNodeFetch(resolveRetryOptions(options), options.headers || {}, options.trace || false, timeout));
+}
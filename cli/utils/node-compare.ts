@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import { RpcClient } from './rpc.js';
+import { canonicalJson } from './fixtures.js';
+
+export interface CompareTarget {
+  url: string;
+  client: RpcClient;
+}
+
+export interface CompareOptions {
+  /** Max blocks a node may be behind the highest tip before it's reported as lagging */
+  maxLag: number;
+  /** Don't treat differing node versions as an issue */
+  ignoreVersionSkew: boolean;
+}
+
+interface NodeSnapshot {
+  url: string;
+  reachable: boolean;
+  error?: string;
+  nodeVersion?: string;
+  latest?: number;
+  proven?: number;
+  oldestHistoricBlock?: number;
+  syncStatus?: any;
+}
+
+function headerHash(header: any): string {
+  return createHash('sha256').update(canonicalJson(header)).digest('hex');
+}
+
+async function snapshot(target: CompareTarget): Promise<NodeSnapshot> {
+  try {
+    const [nodeVersion, tips, syncStatus] = await Promise.all([
+      target.client.call('node_getNodeVersion', []),
+      target.client.call('node_getL2Tips', []),
+      target.client.call('node_getWorldStateSyncStatus', []),
+    ]);
+    return {
+      url: target.url,
+      reachable: true,
+      nodeVersion,
+      latest: Number(tips?.latest?.number ?? 0),
+      proven: Number(tips?.proven?.number ?? 0),
+      oldestHistoricBlock: Number(syncStatus?.oldestHistoricBlockNumber ?? 0),
+      syncStatus,
+    };
+  } catch (error: any) {
+    return { url: target.url, reachable: false, error: error.message };
+  }
+}
+
+/**
+ * Header hash of every target at a height; undefined when any node can't serve it
+ */
+async function headersAt(targets: CompareTarget[], block: number): Promise<Record<string, string> | undefined> {
+  try {
+    const headers = await Promise.all(targets.map((t) => t.client.call('node_getBlockHeader', [block])));
+    if (headers.some((h) => h === null || h === undefined)) {
+      return undefined;
+    }
+    return Object.fromEntries(targets.map((t, i) => [t.url, headerHash(headers[i])]));
+  } catch {
+    return undefined;
+  }
+}
+
+function allEqual(hashes: Record<string, string>): boolean {
+  return new Set(Object.values(hashes)).size === 1;
+}
+
+/**
+ * Compare several nodes of the same network: tips, sync status, versions and block headers
+ * The first divergent block is found by binary search over the common height range, relying on
+ * headers committing to the whole history (a fork at height n makes every later header differ).
+ */
+export async function compareNodes(targets: CompareTarget[], options: CompareOptions): Promise<any> {
+  const issues: string[] = [];
+  const nodes = await Promise.all(targets.map(snapshot));
+
+  for (const node of nodes.filter((n) => !n.reachable)) {
+    issues.push(`${node.url} is unreachable: ${node.error}`);
+  }
+
+  const reachable = nodes.filter((n) => n.reachable);
+  const reachableTargets = targets.filter((t) => reachable.some((n) => n.url === t.url));
+
+  // Version skew
+  const versions: Record<string, string[]> = {};
+  for (const node of reachable) {
+    const version = String(node.nodeVersion);
+    versions[version] = [...(versions[version] || []), node.url];
+  }
+  const versionSkew = Object.keys(versions).length > 1;
+  if (versionSkew && !options.ignoreVersionSkew) {
+    issues.push(`Version skew: ${Object.entries(versions).map(([v, urls]) => `${v} (${urls.join(', ')})`).join(' vs ')}`);
+  }
+
+  // Lagging nodes
+  const highest = Math.max(0, ...reachable.map((n) => n.latest ?? 0));
+  const laggingNodes = reachable
+    .map((n) => ({ url: n.url, latest: n.latest, behind: highest - (n.latest ?? 0) }))
+    .filter((n) => n.behind > options.maxLag);
+  for (const node of laggingNodes) {
+    issues.push(`${node.url} is ${node.behind} blocks behind (latest ${node.latest}, highest ${highest})`);
+  }
+
+  // Divergence over the range of blocks every node can serve
+  let divergence: any = null;
+  if (reachableTargets.length > 1) {
+    const low = Math.max(1, ...reachable.map((n) => n.oldestHistoricBlock ?? 0));
+    const high = Math.min(...reachable.map((n) => n.latest ?? 0));
+    if (high >= low) {
+      const top = await headersAt(reachableTargets, high);
+      if (!top) {
+        issues.push(`Could not fetch block header ${high} from every node`);
+      } else if (!allEqual(top)) {
+        let lo = low;
+        let hi = high;
+        let hashes = top;
+        // Invariant: headers differ at `hi`
+        while (lo < hi) {
+          const mid = Math.floor((lo + hi) / 2);
+          const atMid = await headersAt(reachableTargets, mid);
+          if (!atMid) {
+            break;
+          }
+          if (allEqual(atMid)) {
+            lo = mid + 1;
+          } else {
+            hi = mid;
+            hashes = atMid;
+          }
+        }
+        // `exact` is false when a header in the middle of the range couldn't be fetched
+        divergence = { firstDivergentBlock: hi, exact: lo === hi, comparedFrom: low, headerHashes: hashes };
+        issues.push(`Nodes diverge at block ${hi}`);
+      }
+    }
+  }
+
+  return {
+    consistent: issues.length === 0,
+    highestBlock: highest,
+    nodes: nodes.map((n) => ({ ...n, behind: n.reachable ? highest - (n.latest ?? 0) : undefined })),
+    versions,
+    versionSkew,
+    laggingNodes,
+    divergence,
+    issues,
+  };
+}
@@ -9,12 +9,13 @@ import {
   computeUniqueNoteHash,
 } from '@aztec/stdlib/hash';
 import { encodeArguments } from '@aztec/stdlib/abi';
-import { createAztecNodeClient, waitForNode } from '@aztec/aztec.js/node';
-import { TestWallet } from '@aztec/test-wallet/server';
 import { NoteStatus } from '@aztec/stdlib/note';
 import { loadContractArtifact } from '@aztec/stdlib/abi';
 import { deriveStorageSlotInMap } from '@aztec/stdlib/hash';
 import { Helpers } from './helpers.js';
+import { connectNode, connectWallet } from './wallet.js';
+import { Progress } from './progress.js';
+import { NotFoundError } from './errors.js';
 
 /**
  * Note utility functions
@@ -22,8 +23,9 @@ import { Helpers } from './helpers.js';
 export class NoteUtils {
   /**
    * Fetch notes from a wallet for a given storage slot
+   * Completed steps (accounts created, contract registered, notes found) are recorded in `progress`.
    */
-  static async fetchNotes(params: string): Promise<any> {
+  static async fetchNotes(params: string, progress?: Progress): Promise<any> {
     const p = JSON.parse(params);
     const debug = p.debug || false;
     
@@ -155,18 +157,10 @@ export class NoteUtils {
       debugLog(`[DEBUG] No storage slot specified`);
     }
 
-    // Create node client and wait for it to be ready
-    debugLog(`[DEBUG] Creating node client for: ${nodeUrl}`);
-    const node = createAztecNodeClient(nodeUrl);
-    await waitForNode(node);
-    debugLog(`[DEBUG] Node is ready`);
-
-    // Create wallet using TestWallet
-    debugLog(`[DEBUG] Creating TestWallet...`);
-    const wallet = await TestWallet.create(node, {
-      proverEnabled: false,
-    });
-    debugLog(`[DEBUG] Wallet created`);
+    // Create node client, wait for it to be ready and create a TestWallet (reused within `cazt console`)
+    debugLog(`[DEBUG] Creating node client and TestWallet for: ${nodeUrl}`);
+    const { node, wallet } = await connectWallet(nodeUrl, p, progress);
+    debugLog(`[DEBUG] Node is ready, wallet created`);
 
     // Get PXE from wallet - TestWallet should have a pxe property
     const pxe = (wallet as any).pxe || (wallet as any).getPXE?.();
@@ -189,6 +183,7 @@ export class NoteUtils {
       debugLog(`[DEBUG] Registering sender address: ${senderAddress.toString()}`);
       await wallet.registerSender(senderAddress);
       debugLog(`[DEBUG] Sender address registered`);
+      progress?.record('senderRegistered', senderAddress.toString());
     } else {
       debugLog(`[DEBUG] No sender address provided`);
     }
@@ -211,6 +206,7 @@ export class NoteUtils {
         debugLog(`[DEBUG] Account ${i + 1} created:`, {
           address: accountManager.address.toString(),
         });
+        progress?.record('accounts', accountManagers.map((am) => am.address.toString()));
       }
     } else {
       debugLog(`[DEBUG] No secret keys provided for account creation`);
@@ -229,7 +225,7 @@ export class NoteUtils {
       debugLog(`[DEBUG] Checking contract metadata...`);
       const contractMetadata = await pxe.getContractMetadata(contractAddress);
       if (!contractMetadata) {
-        throw new Error(`Contract not found at address ${contractAddress}`);
+        throw new NotFoundError(`Contract not found at address ${contractAddress}`);
       }
       debugLog(`[DEBUG] Contract metadata:`, {
         isContractPublished: contractMetadata.isContractPublished,
@@ -243,9 +239,13 @@ export class NoteUtils {
         contractSecretKey || undefined
       );
       debugLog(`[DEBUG] Contract registered successfully in wallet`);
+      progress?.record('contractRegistered', contractAddress.toString());
     } catch (error: any) {
       debugLog(`[DEBUG] Registration error:`, error.message);
       debugLog(`[DEBUG] Error stack:`, error.stack);
+      if (error instanceof NotFoundError) {
+        throw error;
+      }
       // If registration fails, it might already be registered, so continue
       // Only throw if it's a critical error
       if (!error.message?.includes('already registered') && 
@@ -325,6 +325,7 @@ export class NoteUtils {
     const notes = await pxe.getNotes(notesFilter);
 
     debugLog(`[DEBUG] Found ${notes.length} note(s)`);
+    progress?.record('notesFound', notes.length);
 
     // Deserialize notes - replace the "note" buffer with deserialized fields
     if (notes.length > 0) {
@@ -666,12 +667,11 @@ export class NoteUtils {
     }
 
     // 3. Get transaction effects
-    const aztecNode = createAztecNodeClient(nodeUrl);
-    await waitForNode(aztecNode);
+    const aztecNode = await connectNode(nodeUrl, p);
     const txEffect = await aztecNode.getTxEffect(txHash);
     
     if (!txEffect) {
-      throw new Error(`Transaction ${txHash} not found`);
+      throw new NotFoundError(`Transaction ${txHash} not found`);
     }
 
     const noteHashes = txEffect.data.noteHashes || [];
@@ -0,0 +1,101 @@
+import { ValidationError } from './errors.js';
+
+/**
+ * Paths into command results: `a.b`, `a[0]`, `a["0x01"]`, and wildcards `a[*]` / `a.*` (with `--select`)
+ * Used by `--select`, console variables (`$r.data.noteHashes[0]`) and plan references and assertions.
+ */
+
+/** Wildcard segment: every item of an array, or every value of an object */
+export const WILDCARD = Symbol('wildcard');
+
+export type PathSegment = string | number | typeof WILDCARD;
+
+const SEGMENT = /^(?:\.?([A-Za-z_$][\w$]*)|\.\*|\[\*\]|\[(\d+)\]|\["([^"]*)"\]|\['([^']*)'\])/;
+
+/**
+ * Split a path into keys, indexes and wildcards (a leading "." is optional)
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let rest = path.trim();
+  while (rest.length > 0) {
+    const match = rest.match(SEGMENT);
+    if (!match || (segments.length > 0 && /^[A-Za-z_$]/.test(rest))) {
+      throw new ValidationError(`Invalid path "${path}" at "${rest}" (expected .key, [0], ["key"], [*] or .*)`);
+    }
+    const [part, name, index, doubleQuoted, singleQuoted] = match;
+    if (name !== undefined) {
+      segments.push(name);
+    } else if (index !== undefined) {
+      segments.push(Number(index));
+    } else if (doubleQuoted !== undefined || singleQuoted !== undefined) {
+      segments.push((doubleQuoted ?? singleQuoted) as string);
+    } else {
+      segments.push(WILDCARD);
+    }
+    rest = rest.slice(part.length);
+  }
+  return segments;
+}
+
+function describeSegment(segment: PathSegment): string {
+  if (segment === WILDCARD) {
+    return '[*]';
+  }
+  return typeof segment === 'number' ? `[${segment}]` : /^[A-Za-z_$][\w$]*$/.test(segment) ? `.${segment}` : `["${segment}"]`;
+}
+
+// Helper to step into a value, failing on scalars (a missing key is undefined)
+function step(current: any, segment: string | number, walked: string): any {
+  if (current === null || current === undefined || typeof current !== 'object') {
+    throw new Error(`Cannot read ${describeSegment(segment)} of ${walked} (${current === null ? 'null' : typeof current})`);
+  }
+  return current[segment];
+}
+
+/**
+ * Read a `.key`, `[0]` or `["key"]` path from a value
+ */
+export function getPath(value: any, path: string, root: string = 'value'): any {
+  let current = value;
+  let walked = root;
+  for (const segment of parsePath(path)) {
+    if (segment === WILDCARD) {
+      throw new Error(`Wildcards are not supported here (${path})`);
+    }
+    current = step(current, segment, walked);
+    walked += describeSegment(segment);
+  }
+  return current;
+}
+
+/**
+ * Select part of a value; with wildcards, the list of every match (flattened across wildcards)
+ */
+export function selectPath(value: any, path: string): any {
+  const segments = parsePath(path);
+  let matches: { value: any; walked: string }[] = [{ value, walked: 'result' }];
+  for (const segment of segments) {
+    matches = matches.flatMap(({ value: current, walked }) => {
+      if (segment !== WILDCARD) {
+        return [{ value: step(current, segment, walked), walked: walked + describeSegment(segment) }];
+      }
+      if (current === null || typeof current !== 'object') {
+        throw new Error(`Cannot read [*] of ${walked} (${current === null ? 'null' : typeof current})`);
+      }
+      return Object.entries(current).map(([key, item]) => ({
+        value: item,
+        walked: walked + describeSegment(Array.isArray(current) ? Number(key) : key),
+      }));
+    });
+  }
+  const values = matches.map((match) => match.value ?? null);
+  return segments.includes(WILDCARD) ? values : values[0];
+}
+
+/**
+ * Whether a selection is one string, number, boolean or null (printed without JSON quoting by default)
+ */
+export function isScalarSelection(path: string, selected: any): boolean {
+  return !parsePath(path).includes(WILDCARD) && (selected === null || typeof selected !== 'object');
+}
@@ -0,0 +1,295 @@
+import { existsSync, readFileSync } from 'fs';
+import { parseOutput, splitWords } from './console.js';
+import { getPath } from './path.js';
+import { NotFoundError } from './errors.js';
+
+/**
+ * Declarative multi-step runs (`cazt run plan.json`)
+ *
+ * {
+ *   "name": "deploy then verify",
+ *   "env": { "NODE": "http://localhost:8080" },
+ *   "steps": [
+ *     { "id": "deploy", "command": "deploy simple", "options": { "artifact": "aztec:Token", "nodeUrl": "${env.NODE}" } },
+ *     { "id": "contract", "command": "contract get", "arguments": ["${steps.deploy.contract.address}"],
+ *       "assert": [{ "path": "address", "equals": "${steps.deploy.contract.address}" }] }
+ *   ]
+ * }
+ */
+
+export interface PlanAssertion {
+  /** Path into the step output (`a.b[0]`), the whole output when omitted */
+  path?: string;
+  equals?: any;
+  notEquals?: any;
+  /** Whether the value is present (not undefined or null) */
+  exists?: boolean;
+  /** Regular expression the (stringified) value must match */
+  matches?: string;
+  /** Length of an array or string */
+  length?: number;
+  /** Message reported when the assertion fails */
+  message?: string;
+}
+
+export interface PlanStep {
+  /** Name other steps use in `${steps.<id>...}` (default: step<N>) */
+  id?: string;
+  description?: string;
+  /** Command words, e.g. "tx receipt" or ["tx", "receipt", "--hash", "0x..."] */
+  command: string | string[];
+  /** Options by name (`nodeUrl` or `node-url`): true for flags, arrays and objects are passed as JSON */
+  options?: Record<string, any>;
+  /** Positional arguments */
+  arguments?: any[];
+  assert?: PlanAssertion[];
+  /** Keep running the plan when this step fails */
+  continueOnError?: boolean;
+}
+
+export interface Plan {
+  name?: string;
+  /** Defaults for `${env.NAME}` (the process environment wins) */
+  env?: Record<string, string>;
+  /** Default for the steps' continueOnError */
+  continueOnError?: boolean;
+  steps: PlanStep[];
+}
+
+export interface AssertionResult extends PlanAssertion {
+  passed: boolean;
+  actual: any;
+}
+
+export interface StepReport {
+  id: string;
+  description?: string;
+  status: 'passed' | 'failed' | 'skipped';
+  command?: string[];
+  durationMs?: number;
+  output?: any;
+  assertions?: AssertionResult[];
+  error?: string;
+}
+
+export interface PlanReport {
+  name?: string;
+  success: boolean;
+  startedAt: string;
+  durationMs: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  steps: StepReport[];
+}
+
+export interface RunPlanOptions {
+  /** Run one command (words without the program name) and return its output */
+  run: (words: string[]) => Promise<string | undefined>;
+  env?: Record<string, string | undefined>;
+  /** Keep running after failed steps, whatever the plan says */
+  continueOnError?: boolean;
+}
+
+/**
+ * Read and check a plan file
+ */
+export function loadPlan(path: string): Plan {
+  if (!existsSync(path)) {
+    throw new NotFoundError(`Plan file not found: ${path}`);
+  }
+  let plan: Plan;
+  try {
+    plan = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Invalid plan ${path}: ${error.message}`);
+  }
+  if (!plan || !Array.isArray(plan.steps)) {
+    throw new Error(`Invalid plan ${path}: "steps" must be an array`);
+  }
+  const ids = new Set<string>();
+  plan.steps.forEach((step, index) => {
+    if (!step || (typeof step.command !== 'string' && !Array.isArray(step.command))) {
+      throw new Error(`Invalid plan ${path}: step ${index + 1} needs a "command"`);
+    }
+    const id = stepId(step, index);
+    if (ids.has(id)) {
+      throw new Error(`Invalid plan ${path}: duplicate step id "${id}"`);
+    }
+    ids.add(id);
+  });
+  return plan;
+}
+
+function stepId(step: PlanStep, index: number): string {
+  return step.id ?? `step${index + 1}`;
+}
+
+interface PlanContext {
+  steps: Record<string, any>;
+  env: Record<string, string | undefined>;
+}
+
+// Helper to resolve `steps.<id><path>` or `env.NAME`
+function lookup(expression: string, context: PlanContext): any {
+  const trimmed = expression.trim();
+  if (trimmed.startsWith('env.')) {
+    const name = trimmed.slice('env.'.length);
+    if (context.env[name] === undefined) {
+      throw new Error(`Environment variable ${name} is not set`);
+    }
+    return context.env[name];
+  }
+  const match = trimmed.match(/^steps\.([A-Za-z0-9_-]+)(.*)$/);
+  if (!match) {
+    throw new Error(`Invalid reference \${${expression}} (expected \${steps.<id>.<path>} or \${env.<NAME>})`);
+  }
+  const [, id, path] = match;
+  if (!(id in context.steps)) {
+    throw new Error(`Step "${id}" has no output (unknown, not run yet or failed)`);
+  }
+  return getPath(context.steps[id], path, `steps.${id}`);
+}
+
+/**
+ * Replace `${...}` references in a value; a string that is a single reference takes the referenced value as is
+ */
+export function interpolate(value: any, context: PlanContext): any {
+  if (typeof value === 'string') {
+    const whole = value.match(/^\$\{([^}]+)\}$/);
+    if (whole) {
+      return lookup(whole[1], context);
+    }
+    return value.replace(/\$\{([^}]+)\}/g, (_, expression) => {
+      const resolved = lookup(expression, context);
+      return typeof resolved === 'string' ? resolved : JSON.stringify(resolved);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolate(item, context));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item, context)]));
+  }
+  return value;
+}
+
+// Helper to pass a value as a command-line word
+function toWord(value: any): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Command-line words of a step, references resolved
+ */
+export function stepWords(step: PlanStep, context: PlanContext): string[] {
+  const command = typeof step.command === 'string' ? splitWords(step.command) : step.command;
+  const words = command.map((word) => toWord(interpolate(word, context)));
+  for (const [name, raw] of Object.entries(step.options || {})) {
+    const value = interpolate(raw, context);
+    if (value === false || value === null || value === undefined) {
+      continue;
+    }
+    const flag = name.startsWith('-') ? name : `--${name.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+    words.push(...(value === true ? [flag] : [flag, toWord(value)]));
+  }
+  words.push(...(step.arguments || []).map((argument) => toWord(interpolate(argument, context))));
+  return words;
+}
+
+// Helper to compare an output value with an expected one (numbers and numeric strings compare by value)
+function sameValue(actual: any, expected: any): boolean {
+  if (actual !== null && expected !== null && typeof actual === 'object' && typeof expected === 'object') {
+    return JSON.stringify(actual) === JSON.stringify(expected);
+  }
+  return String(actual) === String(expected);
+}
+
+/**
+ * Check one assertion against a step output
+ */
+export function checkAssertion(output: any, assertion: PlanAssertion): AssertionResult {
+  const path = assertion.path ? (assertion.path.startsWith('[') ? assertion.path : `.${assertion.path}`) : '';
+  let actual: any;
+  try {
+    actual = getPath(output, path, 'output');
+  } catch {
+    actual = undefined;
+  }
+  let passed = true;
+  if ('equals' in assertion) {
+    passed &&= sameValue(actual, assertion.equals);
+  }
+  if ('notEquals' in assertion) {
+    passed &&= !sameValue(actual, assertion.notEquals);
+  }
+  if (assertion.exists !== undefined) {
+    passed &&= (actual !== undefined && actual !== null) === assertion.exists;
+  }
+  if (assertion.matches !== undefined) {
+    passed &&= actual !== undefined && new RegExp(assertion.matches).test(toWord(actual));
+  }
+  if (assertion.length !== undefined) {
+    passed &&= (Array.isArray(actual) || typeof actual === 'string') && actual.length === assertion.length;
+  }
+  return { ...assertion, passed, actual };
+}
+
+function describeAssertion(result: AssertionResult): string {
+  if (result.message) {
+    return result.message;
+  }
+  const { path, passed, actual, message, ...expected } = result;
+  return `${path || 'output'} ${JSON.stringify(expected)} (actual: ${JSON.stringify(actual)})`;
+}
+
+/**
+ * Run the steps of a plan in order; a failed step stops the run unless it (or the run) continues on error
+ */
+export async function runPlan(plan: Plan, options: RunPlanOptions): Promise<PlanReport> {
+  const started = Date.now();
+  const context: PlanContext = { steps: {}, env: { ...plan.env, ...(options.env ?? process.env) } };
+  const steps: StepReport[] = [];
+  let stopped = false;
+
+  for (const [index, step] of plan.steps.entries()) {
+    const report: StepReport = { id: stepId(step, index), description: step.description, status: 'skipped' };
+    steps.push(report);
+    if (stopped) {
+      continue;
+    }
+    const stepStarted = Date.now();
+    try {
+      report.command = stepWords(step, context);
+      const output = parseOutput((await options.run(report.command)) ?? '');
+      report.output = output;
+      context.steps[report.id] = output;
+      if (step.assert?.length) {
+        report.assertions = step.assert.map((assertion) => checkAssertion(output, interpolate(assertion, context)));
+        const failed = report.assertions.filter((assertion) => !assertion.passed);
+        if (failed.length > 0) {
+          throw new Error(`Assertion failed: ${failed.map(describeAssertion).join('; ')}`);
+        }
+      }
+      report.status = 'passed';
+    } catch (error: any) {
+      report.status = 'failed';
+      report.error = error.message;
+      stopped = !(options.continueOnError || (step.continueOnError ?? plan.continueOnError));
+    } finally {
+      report.durationMs = Date.now() - stepStarted;
+    }
+  }
+
+  const count = (status: StepReport['status']) => steps.filter((step) => step.status === status).length;
+  return {
+    name: plan.name,
+    success: count('failed') === 0 && count('skipped') === 0,
+    startedAt: new Date(started).toISOString(),
+    durationMs: Date.now() - started,
+    passed: count('passed'),
+    failed: count('failed'),
+    skipped: count('skipped'),
+    steps,
+  };
+}
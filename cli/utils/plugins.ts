@@ -0,0 +1,184 @@
+import { homedir } from 'os';
+import { basename, dirname, join, resolve } from 'path';
+import { existsSync, readdirSync, readFileSync, statSync } from 'fs';
+import { pathToFileURL } from 'url';
+import { Command } from 'commander';
+import { ENV_VARS, NetworkConfig } from '../config/index.js';
+import type { Profile } from '../config/profiles.js';
+import type { RpcClient, RpcClientOptions } from './rpc.js';
+import type { AztecUtilities } from './index.js';
+
+/**
+ * Third-party subcommands
+ * Plugins are ES modules found in `~/.cazt/plugins` (files, or directories with a package.json) and in installed
+ * `cazt-plugin-*` / `@scope/cazt-plugin-*` packages. A plugin exports a register function (default export, or a
+ * `register` export) which receives a PluginContext and adds commands to `context.program`:
+ *
+ *   export default function register({ program, createRpcClient, outputResult }) {
+ *     program.command('my-decoder').argument('<data>').action(async (data) => { ... });
+ *   }
+ */
+
+/** Prefix of plugin package names */
+export const PLUGIN_PACKAGE_PREFIX = 'cazt-plugin-';
+
+/**
+ * What a plugin gets access to; the CLI provides the implementations
+ */
+export interface PluginContext {
+  /** Root command: add subcommands with `program.command(...)` */
+  program: Command;
+  /** RpcClient configured from the global options (URL, headers, retries, cache, ...) */
+  createRpcClient: (overrides?: Partial<RpcClientOptions>) => RpcClient;
+  /** The utility functions behind the built-in commands */
+  AztecUtilities: typeof AztecUtilities;
+  /** Print a result the way built-in commands do (raw, or JSON with --json) */
+  outputResult: (value: any, json?: boolean) => void;
+  /** Config resolution: node URLs, networks, the active profile and node client options */
+  config: {
+    resolveRpcUrl: (url: string | undefined) => string;
+    resolveAdminUrl: (url: string | undefined) => string;
+    getNetwork: (nameOrUrl: string | undefined) => (NetworkConfig & { name: string }) | undefined;
+    /** Profile applied to the running command (available inside actions) */
+    getActiveProfile: () => (Profile & { name: string }) | undefined;
+    /** Retries, headers, timeouts and tracing to pass to utilities that create their own node client */
+    nodeClientParams: (nodeUrl: string | undefined) => Record<string, any>;
+  };
+}
+
+export type PluginRegister = (context: PluginContext) => void | Promise<void>;
+
+export interface LoadedPlugin {
+  name: string;
+  version?: string;
+  path: string;
+  source: 'directory' | 'package';
+  /** Commands the plugin added */
+  commands: string[];
+  /** Why the plugin failed to load */
+  error?: string;
+}
+
+interface PluginCandidate {
+  name: string;
+  version?: string;
+  entry: string;
+  path: string;
+  source: LoadedPlugin['source'];
+}
+
+/**
+ * Directory of local plugins (CAZT_PLUGINS_DIR or ~/.cazt/plugins)
+ */
+export function getPluginsDir(): string {
+  return process.env[ENV_VARS.PLUGINS_DIR] || join(homedir(), '.cazt', 'plugins');
+}
+
+function readPackageJson(dir: string): any | undefined {
+  const path = join(dir, 'package.json');
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    return undefined;
+  }
+}
+
+// Helper to find the ES module entry point of a package directory
+function packageEntry(dir: string, pkg: any): string {
+  const exported = typeof pkg?.exports === 'string' ? pkg.exports : pkg?.exports?.['.'];
+  const entry = typeof exported === 'string' ? exported : exported?.import ?? exported?.default;
+  return resolve(dir, entry ?? pkg?.main ?? 'index.js');
+}
+
+function directoryCandidates(dir: string): PluginCandidate[] {
+  if (!existsSync(dir)) {
+    return [];
+  }
+  const candidates: PluginCandidate[] = [];
+  for (const file of readdirSync(dir).sort()) {
+    const path = join(dir, file);
+    if (statSync(path).isDirectory()) {
+      const pkg = readPackageJson(path);
+      candidates.push({ name: pkg?.name ?? file, version: pkg?.version, entry: packageEntry(path, pkg), path, source: 'directory' });
+    } else if (/\.m?js$/.test(file)) {
+      candidates.push({ name: file.replace(/\.m?js$/, ''), entry: path, path, source: 'directory' });
+    }
+  }
+  return candidates;
+}
+
+function packageCandidates(nodeModules: string): PluginCandidate[] {
+  if (!existsSync(nodeModules)) {
+    return [];
+  }
+  const dirs: string[] = [];
+  for (const entry of readdirSync(nodeModules)) {
+    if (entry.startsWith(PLUGIN_PACKAGE_PREFIX)) {
+      dirs.push(join(nodeModules, entry));
+    } else if (entry.startsWith('@')) {
+      const scope = join(nodeModules, entry);
+      if (statSync(scope).isDirectory()) {
+        dirs.push(...readdirSync(scope).filter((name) => name.startsWith(PLUGIN_PACKAGE_PREFIX)).map((name) => join(scope, name)));
+      }
+    }
+  }
+  return dirs.sort().map((path) => {
+    const pkg = readPackageJson(path);
+    return { name: pkg?.name ?? basename(path), version: pkg?.version, entry: packageEntry(path, pkg), path, source: 'package' };
+  });
+}
+
+/**
+ * Find plugins: the plugins directory, then `cazt-plugin-*` packages next to cazt (global installs),
+ * and in cazt's own node_modules. Packages in the working directory's node_modules run only with
+ * CAZT_PROJECT_PLUGINS=1 (a cloned repository shouldn't run code on the next cazt invocation).
+ */
+export function discoverPlugins(packageRoot: string, cwd: string = process.cwd()): PluginCandidate[] {
+  const nodeModules = [join(packageRoot, 'node_modules')];
+  if (process.env[ENV_VARS.PROJECT_PLUGINS] === '1') {
+    nodeModules.unshift(join(cwd, 'node_modules'));
+  }
+  if (basename(dirname(packageRoot)) === 'node_modules') {
+    nodeModules.unshift(dirname(packageRoot));
+  } else if (basename(dirname(dirname(packageRoot))) === 'node_modules') {
+    // Scoped install: node_modules/@scope/cazt
+    nodeModules.unshift(dirname(dirname(packageRoot)));
+  }
+  const seen = new Set<string>();
+  return [...directoryCandidates(getPluginsDir()), ...[...new Set(nodeModules)].flatMap(packageCandidates)].filter((candidate) => {
+    // The same package can be reachable from several node_modules; the first one wins
+    if (seen.has(candidate.name)) {
+      return false;
+    }
+    seen.add(candidate.name);
+    return true;
+  });
+}
+
+/**
+ * Import and register every plugin; a failing plugin is reported (and skipped) instead of breaking the CLI
+ */
+export async function loadPlugins(context: PluginContext, packageRoot: string): Promise<LoadedPlugin[]> {
+  const loaded: LoadedPlugin[] = [];
+  for (const candidate of discoverPlugins(packageRoot)) {
+    const { entry, ...plugin } = candidate;
+    const before = new Set(context.program.commands);
+    let error: string | undefined;
+    try {
+      const module = await import(pathToFileURL(entry).href);
+      const register: PluginRegister | undefined = typeof module.default === 'function' ? module.default : module.register ?? module.default?.register;
+      if (typeof register !== 'function') {
+        throw new Error('no register function exported (default export or "register")');
+      }
+      await register(context);
+    } catch (e: any) {
+      error = e.message;
+    }
+    const commands = context.program.commands.filter((cmd) => !before.has(cmd)).map((cmd) => cmd.name());
+    loaded.push(error ? { ...plugin, commands, error } : { ...plugin, commands });
+  }
+  return loaded;
+}
@@ -0,0 +1,194 @@
+/**
+ * Human-readable rendering (`--human` / `--format pretty`) of blocks, block headers and transaction receipts
+ * Global variables are decoded (numbers, ISO timestamp, gas fees), tree snapshots are named and fees are printed in decimal.
+ */
+
+const TREE_NAMES: Record<string, string> = {
+  lastArchive: 'Archive (previous block)',
+  archive: 'Archive',
+  l1ToL2MessageTree: 'L1 to L2 message tree',
+  noteHashTree: 'Note hash tree',
+  nullifierTree: 'Nullifier tree',
+  publicDataTree: 'Public data tree',
+};
+
+const FIELD_NAMES: Record<string, string> = {
+  numTxs: 'Transactions',
+  blobsHash: 'Blobs hash',
+  inHash: 'In hash (L1 to L2 messages)',
+  outHash: 'Out hash (L2 to L1 messages)',
+  txsEffectsHash: 'Tx effects hash',
+};
+
+type Row = [label: string, value: string];
+
+function isObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Helper to read a serialized number: number, decimal string, 0x-hex string or { value }
+function toBigInt(value: any): bigint | undefined {
+  if (isObject(value) && 'value' in value) {
+    return toBigInt(value.value);
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'string' && /^(0x[0-9a-fA-F]+|\d+)$/.test(value)) {
+    return BigInt(value);
+  }
+  return undefined;
+}
+
+// Helper to print addresses and hashes as they are
+function text(value: any): string {
+  return value === undefined || value === null ? '-' : String(value);
+}
+
+function decimal(value: any): string {
+  const parsed = toBigInt(value);
+  if (parsed !== undefined) {
+    return parsed.toString();
+  }
+  return text(value);
+}
+
+function timestamp(value: any): string {
+  const seconds = toBigInt(value);
+  if (seconds === undefined) {
+    return decimal(value);
+  }
+  return `${new Date(Number(seconds) * 1000).toISOString()} (${seconds})`;
+}
+
+// Helper to print a camelCase key as words
+function humanize(key: string): string {
+  const words = key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function snapshot(value: any): string {
+  if (!isObject(value)) {
+    return decimal(value);
+  }
+  const next = value.nextAvailableLeafIndex;
+  return next === undefined ? text(value.root) : `${value.root} (next leaf index ${decimal(next)})`;
+}
+
+function section(title: string, rows: Row[]): string {
+  const width = Math.max(...rows.map(([label]) => label.length));
+  return [title, ...rows.map(([label, value]) => `  ${label.padEnd(width)}  ${value}`)].join('\n');
+}
+
+function isHeader(value: any): boolean {
+  return isObject(value) && isObject(value.globalVariables);
+}
+
+function isBlock(value: any): boolean {
+  return isObject(value) && isHeader(value.header);
+}
+
+function isReceipt(value: any): boolean {
+  return isObject(value) && typeof value.txHash === 'string' && typeof value.status === 'string';
+}
+
+function renderHeader(header: Record<string, any>): string[] {
+  const globals = header.globalVariables;
+  const gasFees = isObject(globals.gasFees) ? globals.gasFees : {};
+  const sections = [
+    section('Global variables', [
+      ['Chain id', decimal(globals.chainId)],
+      ['Version', decimal(globals.version)],
+      ['Block number', decimal(globals.blockNumber)],
+      ['Slot', decimal(globals.slotNumber)],
+      ['Timestamp', timestamp(globals.timestamp)],
+      ['Coinbase', text(globals.coinbase)],
+      ['Fee recipient', text(globals.feeRecipient)],
+      ['Gas fees', `${decimal(gasFees.feePerL2Gas)} per L2 gas, ${decimal(gasFees.feePerDaGas)} per DA gas`],
+    ]),
+  ];
+  const totals: Row[] = [];
+  if (header.totalFees !== undefined) {
+    totals.push(['Total fees', decimal(header.totalFees)]);
+  }
+  if (header.totalManaUsed !== undefined) {
+    totals.push(['Total mana used', decimal(header.totalManaUsed)]);
+  }
+  if (totals.length > 0) {
+    sections.push(section('Fees', totals));
+  }
+  const trees: Row[] = [];
+  if (header.lastArchive !== undefined) {
+    trees.push([TREE_NAMES.lastArchive, snapshot(header.lastArchive)]);
+  }
+  const state = isObject(header.state) ? header.state : {};
+  for (const [key, tree] of Object.entries({ l1ToL2MessageTree: state.l1ToL2MessageTree, ...state.partial })) {
+    if (tree !== undefined) {
+      trees.push([TREE_NAMES[key] ?? humanize(key), snapshot(tree)]);
+    }
+  }
+  if (trees.length > 0) {
+    sections.push(section('Tree roots', trees));
+  }
+  if (isObject(header.contentCommitment)) {
+    sections.push(section('Content commitment', Object.entries(header.contentCommitment).map(([key, value]): Row => [
+      FIELD_NAMES[key] ?? humanize(key),
+      key === 'numTxs' ? decimal(value) : text(value),
+    ])));
+  }
+  return sections;
+}
+
+function renderBlock(block: Record<string, any>): string {
+  const number = decimal(block.header.globalVariables.blockNumber);
+  const sections = [block.archive === undefined ? `Block ${number}` : section(`Block ${number}`, [[TREE_NAMES.archive, snapshot(block.archive)]])];
+  sections.push(...renderHeader(block.header));
+  const txEffects = Array.isArray(block.body?.txEffects) ? block.body.txEffects : undefined;
+  if (txEffects) {
+    const rows = txEffects.map((effect: any, index: number): Row => [
+      String(index),
+      `${effect?.txHash ?? '-'}  fee ${decimal(effect?.transactionFee)}${toBigInt(effect?.revertCode) ? `  reverted (code ${decimal(effect.revertCode)})` : ''}`,
+    ]);
+    sections.push(rows.length > 0 ? section(`Transactions (${rows.length})`, rows) : 'Transactions (0)');
+  }
+  return sections.join('\n\n');
+}
+
+function renderReceipt(receipt: Record<string, any>): string {
+  const rows: Row[] = [
+    ['Status', receipt.status],
+    ['Fee', decimal(receipt.transactionFee)],
+    ['Block', receipt.blockNumber === undefined ? '-' : `${decimal(receipt.blockNumber)}${receipt.blockHash ? ` (${receipt.blockHash})` : ''}`],
+  ];
+  if (receipt.error) {
+    rows.push(['Error', String(receipt.error)]);
+  }
+  return section(`Transaction ${receipt.txHash}`, rows);
+}
+
+function renderOne(value: any): string | undefined {
+  if (isBlock(value)) {
+    return renderBlock(value);
+  }
+  if (isHeader(value)) {
+    return [`Block header ${decimal(value.globalVariables.blockNumber)}`, ...renderHeader(value)].join('\n\n');
+  }
+  if (isReceipt(value)) {
+    return renderReceipt(value);
+  }
+  return undefined;
+}
+
+/**
+ * Render a block, header or receipt (or a list of them); undefined for anything else
+ */
+export function renderPretty(value: any): string | undefined {
+  if (Array.isArray(value) && value.length > 0) {
+    const rendered = value.map(renderOne);
+    return rendered.every((text) => text !== undefined) ? rendered.join('\n\n') : undefined;
+  }
+  return renderOne(value);
+}
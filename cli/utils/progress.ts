@@ -0,0 +1,24 @@
+/**
+ * Steps completed by a long-running operation (deploy, notes fetch)
+ * Lets the CLI report what was already done - e.g. a tx hash that was sent - when the run is interrupted.
+ */
+export class Progress {
+  private readonly steps: Record<string, any> = {};
+
+  constructor(readonly operation: string) {}
+
+  /**
+   * Record a completed step with its outcome (later records of the same step overwrite earlier ones)
+   */
+  record(step: string, value: any = true): void {
+    this.steps[step] = value;
+  }
+
+  get(step: string): any {
+    return this.steps[step];
+  }
+
+  toJSON(): Record<string, any> {
+    return { ...this.steps };
+  }
+}
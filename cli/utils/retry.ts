@@ -0,0 +1,84 @@
+import { TransportError, ValidationError } from './errors.js';
+
+/**
+ * Retry policy for requests sent to a node
+ */
+export interface RetryOptions {
+  /** Number of retries after the first attempt (0 disables retrying) */
+  retries: number;
+  /** Base delay in milliseconds, doubled on every attempt */
+  retryDelay: number;
+  /** Upper bound for a single delay between attempts in milliseconds (backoff or the server's Retry-After) */
+  maxDelay: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  retryDelay: 500,
+  maxDelay: 30_000,
+};
+
+/**
+ * Build a complete retry policy from partial (possibly string) values, e.g. CLI options
+ */
+export function resolveRetryOptions(options: { retries?: number | string; retryDelay?: number | string } = {}): RetryOptions {
+  const retries = options.retries !== undefined ? Number(options.retries) : DEFAULT_RETRY_OPTIONS.retries;
+  const retryDelay = options.retryDelay !== undefined ? Number(options.retryDelay) : DEFAULT_RETRY_OPTIONS.retryDelay;
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new ValidationError(`Invalid retries value: ${options.retries}`);
+  }
+  if (!Number.isFinite(retryDelay) || retryDelay < 0) {
+    throw new ValidationError(`Invalid retry delay: ${options.retryDelay}`);
+  }
+  return { ...DEFAULT_RETRY_OPTIONS, retries, retryDelay };
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Exponential backoff with jitter: a random delay between half and the full
+ * exponential step, so concurrent clients don't retry in lockstep
+ */
+export function computeBackoff(attempt: number, options: RetryOptions): number {
+  const step = Math.min(options.maxDelay, options.retryDelay * 2 ** attempt);
+  return Math.round(step / 2 + Math.random() * (step / 2));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run `fn` until it succeeds, retrying retryable transport errors with backoff
+ * Any other error (e.g. a JSON-RPC error payload) is rethrown immediately
+ */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error: any) {
+      if (!(error instanceof TransportError) || !error.retryable || attempt >= options.retries) {
+        throw error;
+      }
+      // Honor the server's Retry-After (429/503) over our own backoff, within maxDelay
+      const delay = Math.min(error.retryAfter ?? computeBackoff(attempt, options), options.maxDelay);
+      await sleep(delay);
+    }
+  }
+}
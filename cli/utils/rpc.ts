@@ -2,63 +2,428 @@ import fetch from 'node-fetch';
 import { readFileSync, existsSync, readdirSync } from 'fs';
 import { resolve, join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import { NotFoundError, RpcError, TransportError } from './errors.js';
+import { RetryOptions, parseRetryAfter, resolveRetryOptions, withRetry } from './retry.js';
+import { FixtureStore } from './fixtures.js';
+import { ResponseCache, cachedResponseBlock, isCacheableMethod } from './cache.js';
+import { traceLocal, traceRequest } from './trace.js';
+import { isStateChangingMethod, validateParams } from './methods.js';
+import { parseTimeout, withTimeout } from './timeout.js';
+import { renderResult } from './format.js';
 
 export interface RpcClientOptions {
   rpcUrl: string;
   adminUrl: string;
   pretty: boolean;
+  /** Number of retries for retryable transport errors (default: 3) */
+  retries?: number | string;
+  /** Base backoff delay in milliseconds (default: 500) */
+  retryDelay?: number | string;
+  /** Extra HTTP headers sent with every request (node and admin endpoints) */
+  headers?: Record<string, string>;
+  /** Directory where every call and its response is recorded */
+  record?: string;
+  /** Directory of recorded responses to serve instead of contacting the node */
+  replay?: string;
+  /** Root directory of the response cache for immutable historical queries (disabled when unset) */
+  cacheDir?: string;
+  /** Print every request with its target, size, latency and error to stderr */
+  trace?: boolean;
+  /** Validate and coerce params of known methods before sending (default: true) */
+  validate?: boolean;
+  /** Awaited once before the first state-changing call (e.g. to check the network identity); a rejection fails the call */
+  beforeStateChange?: () => Promise<void>;
+  /** Timeout for each request attempt in milliseconds (0 or unset: no timeout) */
+  timeout?: number | string;
 }
 
+export interface RpcCall {
+  method: string;
+  params?: any[];
+}
+
+/**
+ * Outcome of a single call inside a batch - exactly one of result/error is set
+ */
+export interface RpcBatchEntry {
+  method: string;
+  result?: any;
+  error?: { message: string; code?: number; data?: any };
+}
+
+/** Max concurrent requests when a node rejects JSON-RPC batches */
+const BATCH_FALLBACK_CONCURRENCY = 8;
+
 export class RpcClient {
   private rpcUrl: string;
   private adminUrl: string;
   private pretty: boolean;
+  private retryOptions: RetryOptions;
+  private headers: Record<string, string>;
+  private recorder?: FixtureStore;
+  private replayer?: FixtureStore;
+  private cache?: ResponseCache;
+  private cacheStore?: Promise<FixtureStore>;
+  private provenBlockNumber?: Promise<number>;
+  private trace: boolean;
+  private validate: boolean;
+  private beforeStateChange?: () => Promise<void>;
+  private stateChangeCheck?: Promise<void>;
+  private timeout?: number;
 
   constructor(options: RpcClientOptions) {
+    if (options.record && options.replay) {
+      throw new Error('Cannot use record and replay at the same time');
+    }
     this.rpcUrl = options.rpcUrl;
     this.adminUrl = options.adminUrl;
     this.pretty = options.pretty;
+    this.retryOptions = resolveRetryOptions(options);
+    this.headers = options.headers || {};
+    this.recorder = options.record ? new FixtureStore(options.record) : undefined;
+    this.replayer = options.replay ? new FixtureStore(options.replay) : undefined;
+    this.cache = options.cacheDir ? new ResponseCache(options.cacheDir) : undefined;
+    this.trace = options.trace || false;
+    this.validate = options.validate ?? true;
+    this.beforeStateChange = options.beforeStateChange;
+    this.timeout = parseTimeout(options.timeout);
   }
 
   async call(method: string, params: any[]): Promise<any> {
-    const url = method.startsWith('nodeAdmin_') ? this.adminUrl : this.rpcUrl;
+    if (this.validate) {
+      params = validateParams(method, params);
+    }
+    await this.checkStateChange([method]);
+    if (this.replayer) {
+      return this.replay(this.replayer, method, params);
+    }
+    if (this.cache && isCacheableMethod(method)) {
+      return this.cachedCall(method, params);
+    }
+    return this.send(method, params);
+  }
+
+  /**
+   * Serve a historical query from the cache, storing the response only once its block is proven
+   */
+  private async cachedCall(method: string, params: any[]): Promise<any> {
+    const store = await this.getCacheStore();
+    const cached = store.read(method, params);
+    if (cached && cached.result !== undefined) {
+      if (this.trace) {
+        traceLocal('cache hit', method);
+      }
+      return cached.result;
+    }
+
+    const result = await this.send(method, params);
+    const block = cachedResponseBlock(method, params, result);
+    if (block === 'immutable' || (block !== undefined && block <= await this.getProvenBlockNumber())) {
+      store.write({ method, params, result });
+    }
+    return result;
+  }
+
+  /**
+   * Run the beforeStateChange check (once per client) when one of the methods changes state
+   */
+  private async checkStateChange(methods: string[]): Promise<void> {
+    if (!this.beforeStateChange || !methods.some(isStateChangingMethod)) {
+      return;
+    }
+    if (!this.stateChangeCheck) {
+      this.stateChangeCheck = this.beforeStateChange();
+    }
+    await this.stateChangeCheck;
+  }
+
+  private getCacheStore(): Promise<FixtureStore> {
+    if (!this.cacheStore) {
+      this.cacheStore = Promise.all([
+        this.send('node_getChainId', []),
+        this.send('node_getVersion', []),
+        this.send('node_getBlockHeader', [1]),
+      ]).then(([chainId, version, firstBlockHeader]) => this.cache!.forChain(chainId, version, firstBlockHeader));
+    }
+    return this.cacheStore;
+  }
+
+  private getProvenBlockNumber(): Promise<number> {
+    if (!this.provenBlockNumber) {
+      this.provenBlockNumber = this.send('node_getProvenBlockNumber', []).then(Number);
+    }
+    return this.provenBlockNumber;
+  }
+
+  /**
+   * Send a single call to the node, recording the exchange when recording is enabled
+   */
+  private async send(method: string, params: any[]): Promise<any> {
+    const url = this.urlFor(method);
     
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
+    let data: { result?: any; error?: any };
+    try {
+      data = await this.post(url, {
         jsonrpc: '2.0',
         id: 1,
         method,
         params,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      });
+    } catch (error: any) {
+      if (error instanceof RpcError) {
+        this.recorder?.write({ method, params, error: error.payload });
+      }
+      throw error;
     }
-
-    const data = await response.json() as { result?: any; error?: any };
     
     if (data.error) {
-      throw new Error(`RPC error: ${JSON.stringify(data.error)}`);
+      this.recorder?.write({ method, params, error: data.error });
+      throw new RpcError(data.error);
     }
 
+    this.recorder?.write({ method, params, result: data.result });
     return data.result;
   }
 
-  formatOutput(result: any, pretty: boolean): string {
-    // Handle null/undefined explicitly
-    if (result === null || result === undefined) {
-      return pretty ? 'null' : 'null';
+  /**
+   * Serve a call from recorded fixtures, failing loudly when it was never recorded
+   */
+  private replay(store: FixtureStore, method: string, params: any[]): any {
+    const fixture = store.read(method, params);
+    if (this.trace) {
+      traceLocal(fixture ? 'replay' : 'replay miss', method);
+    }
+    if (!fixture) {
+      throw new Error(`No recorded response for ${method} with params ${JSON.stringify(params)} (expected ${store.pathFor(method, params)})`);
+    }
+    if (fixture.error !== undefined) {
+      throw new RpcError(fixture.error);
+    }
+    return fixture.result;
+  }
+
+  /**
+   * Execute many calls as JSON-RPC batch requests (one per endpoint)
+   * Falls back to concurrent single calls when the node rejects batches.
+   * Never throws for a failing entry: each entry carries either its result or its error.
+   */
+  async callBatch(calls: RpcCall[], useBatch: boolean = true): Promise<RpcBatchEntry[]> {
+    const entries: RpcBatchEntry[] = new Array(calls.length);
+
+    // Calls with invalid params fail on their own without being sent
+    const prepared = calls.map((call, index) => {
+      try {
+        return { method: call.method, params: this.validate ? validateParams(call.method, call.params ?? []) : call.params ?? [] };
+      } catch (error: any) {
+        entries[index] = { method: call.method, error: toEntryError(error) };
+        return undefined;
+      }
+    });
+    // A failed network check fails the whole batch, before anything is sent
+    await this.checkStateChange(calls.map((call) => call.method));
+
+    // Admin methods go to a different endpoint, so group calls by target url
+    const groups = new Map<string, number[]>();
+    calls.forEach((call, index) => {
+      if (!prepared[index]) {
+        return;
+      }
+      const url = this.urlFor(call.method);
+      groups.set(url, [...(groups.get(url) || []), index]);
+    });
+
+    for (const [url, indexes] of groups) {
+      let responses: any[] | undefined;
+      // Replayed calls are served one by one from their fixtures
+      if (useBatch && !this.replayer) {
+        try {
+          const data = await this.post(url, indexes.map((index) => ({
+            jsonrpc: '2.0',
+            id: index,
+            method: prepared[index]!.method,
+            params: prepared[index]!.params,
+          })));
+          if (Array.isArray(data)) {
+            responses = data;
+          }
+        } catch (error: any) {
+          // The endpoint is unreachable: every call in this group fails the same way
+          if (error instanceof TransportError && error.retryable) {
+            for (const index of indexes) {
+              entries[index] = { method: calls[index].method, error: toEntryError(error) };
+            }
+            continue;
+          }
+          // Otherwise the node most likely doesn't support batches: fall back to single calls
+        }
+      }
+
+      if (responses) {
+        const byId = new Map(responses.map((response) => [response?.id, response]));
+        for (const index of indexes) {
+          const response = byId.get(index);
+          const { method, params } = prepared[index]!;
+          if (!response) {
+            entries[index] = { method, error: { message: 'No response for this call in batch' } };
+          } else if (response.error) {
+            this.recorder?.write({ method, params, error: response.error });
+            entries[index] = { method, error: toEntryError(new RpcError(response.error)) };
+          } else {
+            this.recorder?.write({ method, params, result: response.result });
+            entries[index] = { method, result: response.result };
+          }
+        }
+        continue;
+      }
+
+      await forEachConcurrent(indexes, BATCH_FALLBACK_CONCURRENCY, async (index) => {
+        const { method, params } = prepared[index]!;
+        try {
+          entries[index] = { method, result: await this.call(method, params) };
+        } catch (error: any) {
+          entries[index] = { method, error: toEntryError(error) };
+        }
+      });
     }
-    if (pretty) {
-      return JSON.stringify(result, null, 2);
+
+    return entries;
+  }
+
+  private urlFor(method: string): string {
+    return method.startsWith('nodeAdmin_') ? this.adminUrl : this.rpcUrl;
+  }
+
+  /**
+   * POST a JSON-RPC payload, retrying transport failures according to the retry policy
+   */
+  private async post(url: string, body: unknown): Promise<any> {
+    return withRetry(async (attempt) => {
+      const started = Date.now();
+      try {
+        const { data, status, bytes } = await withTimeout(
+          this.timeout,
+          `Request to ${url} timed out after ${this.timeout}ms`,
+          (signal) => this.postOnce(url, body, signal),
+        );
+        if (this.trace) {
+          const error = data?.error ? new RpcError(data.error).message : undefined;
+          traceRequest({ url, body, attempt, ms: Date.now() - started, status, bytes, error });
+        }
+        return data;
+      } catch (error: any) {
+        if (this.trace) {
+          traceRequest({ url, body, attempt, ms: Date.now() - started, status: error.status, error: error.message });
+        }
+        throw error;
+      }
+    }, this.retryOptions);
+  }
+
+  private async postOnce(url: string, body: unknown, signal?: AbortSignal): Promise<{ data: any; status: number; bytes: number }> {
+    let response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { ...this.headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error: any) {
+      throw new TransportError(`Request to ${url} failed: ${error.message}`);
     }
-    return JSON.stringify(result);
+
+    if (!response.ok) {
+      // Some nodes answer JSON-RPC errors with a non-2xx status; those are not transport failures
+      const text = await response.text().catch(() => '');
+      let payload: any;
+      try {
+        payload = JSON.parse(text);
+      } catch {
+        payload = undefined;
+      }
+      if (payload?.error) {
+        throw new RpcError(payload.error);
+      }
+      throw new TransportError(
+        `HTTP error! status: ${response.status}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after')),
+      );
+    }
+
+    const text = await response.text();
+    return { data: JSON.parse(text), status: response.status, bytes: Buffer.byteLength(text) };
+  }
+
+  /**
+   * JSON of a result, for library use (the CLI renders results with its output options through renderResult)
+   */
+  formatOutput(result: any, pretty: boolean): string {
+    return renderResult(result, { fallback: 'json', pretty });
   }
 }
 
+function toEntryError(error: any): { message: string; code?: number; data?: any } {
+  if (error instanceof RpcError) {
+    return { message: error.message, code: error.code, data: error.data };
+  }
+  return { message: error?.message ?? String(error) };
+}
+
+/**
+ * Run `fn` over all items with at most `limit` promises in flight
+ */
+async function forEachConcurrent<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Parse a batch file: either a JSON array or newline-delimited JSON of {method, params} entries
+ */
+export function parseBatchCalls(content: string): RpcCall[] {
+  const trimmed = content.trim();
+  let entries: any[];
+  if (trimmed.startsWith('[')) {
+    entries = JSON.parse(trimmed);
+  } else {
+    entries = [];
+    trimmed.split('\n').forEach((line, i) => {
+      if (line.trim().length === 0) return;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (error: any) {
+        throw new Error(`Invalid JSON on line ${i + 1}: ${error.message}`);
+      }
+    });
+  }
+
+  return entries.map((entry, i) => {
+    if (!entry || typeof entry.method !== 'string') {
+      throw new Error(`Entry ${i} is missing a "method" string`);
+    }
+    if (entry.params !== undefined && !Array.isArray(entry.params)) {
+      throw new Error(`Entry ${i} ("${entry.method}") has non-array "params"`);
+    }
+    return { method: entry.method, params: entry.params ?? [] };
+  });
+}
+
+/**
+ * Extra artifact sources (name -> directory), e.g. from the active config profile
+ * An artifact in a registered source is referenced as `<name>:ContractName`.
+ */
+const artifactSources: Record<string, string> = {};
+
+export function registerArtifactSources(sources: Record<string, string>): void {
+  Object.assign(artifactSources, sources);
+}
+
 /**
  * Get the package root directory (works in both dev and when installed)
  */
@@ -127,11 +492,10 @@ export function parseJsonOrFile(input: string): any {
           const content = readFileSync(filePath, 'utf-8');
           return JSON.parse(content);
         }
-        
-        throw new Error(`Artifact "${contractName}" not found in aztec artifacts`);
       } catch (error: any) {
         throw new Error(`Failed to load artifact "${input}": ${error.message}`);
       }
+      throw new NotFoundError(`Failed to load artifact "${input}": Artifact "${contractName}" not found in aztec artifacts`);
     } else if (source === 'standards') {
       // Resolve artifact from .aztec-standards/target
       const artifactsPath = resolve(packageRoot, '.aztec-standards/target');
@@ -154,11 +518,26 @@ export function parseJsonOrFile(input: string): any {
           const content = readFileSync(filePath, 'utf-8');
           return JSON.parse(content);
         }
-        
-        throw new Error(`Artifact "${contractName}" not found in standards artifacts`);
       } catch (error: any) {
         throw new Error(`Failed to load artifact "${input}": ${error.message}`);
       }
+      throw new NotFoundError(`Failed to load artifact "${input}": Artifact "${contractName}" not found in standards artifacts`);
+    } else if (artifactSources[source]) {
+      // Resolve artifact from a source directory configured in the active profile
+      const artifactsPath = artifactSources[source];
+      
+      if (!existsSync(artifactsPath)) {
+        throw new Error(`Artifacts directory not found: ${artifactsPath} (artifact source "${source}")`);
+      }
+      
+      const files = readdirSync(artifactsPath).filter((f: string) => f.endsWith('.json'));
+      const matchingFile = files.find((f: string) => f === `${contractName}.json`)
+        || files.find((f: string) => f.toLowerCase().includes(contractName.toLowerCase()));
+      
+      if (!matchingFile) {
+        throw new NotFoundError(`Failed to load artifact "${input}": Artifact "${contractName}" not found in ${artifactsPath}`);
+      }
+      return JSON.parse(readFileSync(join(artifactsPath, matchingFile), 'utf-8'));
     }
   }
   
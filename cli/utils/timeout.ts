@@ -0,0 +1,72 @@
+import { TimeoutError, ValidationError } from './errors.js';
+
+/** Default timeout for a single request attempt, in milliseconds */
+export const DEFAULT_REQUEST_TIMEOUT = 30_000;
+
+/** Default time to wait for a node to become ready, in milliseconds */
+export const DEFAULT_READY_TIMEOUT = 60_000;
+
+/** Delay between readiness checks, in milliseconds */
+const READY_POLL_INTERVAL = 1_000;
+
+/**
+ * Parse a timeout in milliseconds from a (possibly string) option value; 0 disables the timeout
+ */
+export function parseTimeout(value: number | string | undefined, name: string = 'timeout'): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const ms = Number(value);
+  if (!Number.isFinite(ms) || ms < 0) {
+    throw new ValidationError(`Invalid ${name}: ${value}`);
+  }
+  return ms > 0 ? ms : undefined;
+}
+
+/**
+ * Run `fn` with an AbortSignal that fires after `ms`, turning the abort into a TimeoutError
+ * Without a timeout, `fn` runs without a signal.
+ */
+export async function withTimeout<T>(ms: number | undefined, message: string, fn: (signal?: AbortSignal) => Promise<T>): Promise<T> {
+  if (!ms) {
+    return fn(undefined);
+  }
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), ms);
+  try {
+    return await Promise.race([fn(controller.signal), rejectOnAbort(controller.signal)]);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new TimeoutError(message, ms);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Settles only when the signal aborts, for racing work that doesn't take a signal itself
+ */
+function rejectOnAbort(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => {
+    signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+}
+
+/**
+ * Poll `getNodeInfo` until the node answers, like `waitForNode` from aztec.js but bounded by `timeoutMs`
+ */
+export async function waitForNodeReady(node: { getNodeInfo(): Promise<unknown> }, timeoutMs?: number, nodeUrl?: string): Promise<void> {
+  const target = nodeUrl ? `Node at ${nodeUrl}` : 'Node';
+  await withTimeout(timeoutMs, `${target} not ready after ${timeoutMs}ms`, async (signal) => {
+    while (!signal?.aborted) {
+      try {
+        await node.getNodeInfo();
+        return;
+      } catch {
+        await new Promise((resolve) => setTimeout(resolve, READY_POLL_INTERVAL));
+      }
+    }
+  });
+}
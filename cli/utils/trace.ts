@@ -0,0 +1,54 @@
+/**
+ * One outbound JSON-RPC request (a single attempt when retrying)
+ */
+export interface TraceEntry {
+  url: string;
+  body: unknown;
+  attempt: number;
+  ms: number;
+  status?: number;
+  bytes?: number;
+  error?: string;
+}
+
+const MAX_PARAMS_LENGTH = 200;
+
+/**
+ * Summarize a JSON-RPC payload (single call or batch) as `method params` for trace output
+ */
+function describeBody(body: any): { target: string; call: string } {
+  const calls: any[] = Array.isArray(body) ? body : [body];
+  const methods = calls.map((c) => String(c?.method ?? '?'));
+  const target = methods.every((m) => m.startsWith('nodeAdmin_')) ? 'admin' : 'node';
+  if (Array.isArray(body)) {
+    return { target, call: `batch(${calls.length}) ${[...new Set(methods)].join(',')}` };
+  }
+  let params = JSON.stringify(calls[0]?.params ?? [], (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+  if (params.length > MAX_PARAMS_LENGTH) {
+    params = `${params.slice(0, MAX_PARAMS_LENGTH)}...`;
+  }
+  return { target, call: `${methods[0]} ${params}` };
+}
+
+function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes}B` : `${(bytes / 1024).toFixed(1)}KB`;
+}
+
+/**
+ * Print a request trace line to stderr
+ */
+export function traceRequest(entry: TraceEntry): void {
+  const { target, call } = describeBody(entry.body);
+  const retry = entry.attempt > 0 ? ` (retry ${entry.attempt})` : '';
+  const outcome = entry.error
+    ? `${entry.status ?? 'ERR'} ${entry.ms}ms error: ${entry.error}`
+    : `${entry.status} ${formatBytes(entry.bytes ?? 0)} ${entry.ms}ms`;
+  console.error(`[trace] ${target} ${entry.url} ${call}${retry} -> ${outcome}`);
+}
+
+/**
+ * Print a trace line for a call served without contacting the node (cache, replay)
+ */
+export function traceLocal(source: string, method: string): void {
+  console.error(`[trace] ${source} ${method}`);
+}
@@ -0,0 +1,56 @@
+import { TestWallet } from '@aztec/test-wallet/server';
+import { createNodeClient, NodeClientOptions } from './node-client.js';
+import { parseTimeout, waitForNodeReady } from './timeout.js';
+import { Progress } from './progress.js';
+
+type NodeClient = ReturnType<typeof createNodeClient>;
+
+/**
+ * Node clients and wallets kept alive across commands (by `cazt console`), keyed by node URL and client options
+ * Creating a TestWallet (and its PXE) is the slowest step of `notes fetch` and `deploy *`.
+ */
+let session: { nodes: Map<string, Promise<NodeClient>>; wallets: Map<string, Promise<TestWallet>> } | undefined;
+
+export function keepConnectionsAlive(enabled: boolean = true): void {
+  session = enabled ? { nodes: new Map(), wallets: new Map() } : undefined;
+}
+
+function sessionKey(nodeUrl: string, options: NodeClientOptions): string {
+  const { retries, retryDelay, headers, trace, timeout } = options;
+  return JSON.stringify([nodeUrl, retries, retryDelay, headers, trace, timeout]);
+}
+
+// Helper to reuse a pending or settled value from the session, dropping it if it failed
+function reuse<T>(cache: Map<string, Promise<T>> | undefined, key: string, create: () => Promise<T>): Promise<T> {
+  const cached = cache?.get(key);
+  if (cached) {
+    return cached;
+  }
+  const created = create();
+  if (cache) {
+    cache.set(key, created);
+    created.catch(() => cache.delete(key));
+  }
+  return created;
+}
+
+/**
+ * Create a node client and wait for the node to be ready
+ */
+export function connectNode(nodeUrl: string, options: NodeClientOptions & { readyTimeout?: number | string }): Promise<NodeClient> {
+  return reuse(session?.nodes, sessionKey(nodeUrl, options), async () => {
+    const node = createNodeClient(nodeUrl, options);
+    await waitForNodeReady(node, parseTimeout(options.readyTimeout, 'ready timeout'), nodeUrl);
+    return node;
+  });
+}
+
+/**
+ * Connect to a node and create a TestWallet on it (proving disabled)
+ */
+export async function connectWallet(nodeUrl: string, options: NodeClientOptions, progress?: Progress): Promise<{ node: NodeClient; wallet: TestWallet }> {
+  const node = await connectNode(nodeUrl, options);
+  progress?.record('nodeReady');
+  const wallet = await reuse(session?.wallets, sessionKey(nodeUrl, options), () => TestWallet.create(node, { proverEnabled: false }));
+  return { node, wallet };
+}
@@ -1,4 +1,33 @@
 import { program } from '../cli/cli.js';
+import { FixtureStore } from '../cli/utils/fixtures.js';
+import { startMockNode, MockNode } from '../cli/utils/mock-node.js';
+import { RpcClient } from '../cli/utils/rpc.js';
+import { compareNodes } from '../cli/utils/node-compare.js';
+import { METHODS, ParamType, validateParams } from '../cli/utils/methods.js';
+import { EXIT_CODES, NotFoundError, RpcError, TimeoutError, TransportError, ValidationError, classifyError } from '../cli/utils/errors.js';
+import { parseTimeout, waitForNodeReady } from '../cli/utils/timeout.js';
+import { DEFAULT_RETRY_OPTIONS, computeBackoff, resolveRetryOptions, withRetry } from '../cli/utils/retry.js';
+import { getActiveProfile, getGlobalConfigPath, setProfileValue } from '../cli/config/profiles.js';
+import { registerNetworks, resolveRpcUrl } from '../cli/config/index.js';
+import { verifyNetworkIdentity } from '../cli/utils/network-identity.js';
+import { findLabels } from '../cli/config/labels.js';
+import { loadAccount } from '../cli/config/keystore.js';
+import { ConsoleSession } from '../cli/utils/console.js';
+import { discoverPlugins, loadPlugins, PluginContext } from '../cli/utils/plugins.js';
+import { buildAnnotations, contractClassesCachePath, findAnnotations } from '../cli/utils/annotate.js';
+import { decodePublicEvents, describeFunction, encodeFunctionArgs, parseFeeOptions, returnValuesToJson } from '../cli/utils/interaction.js';
+import { AztecUtilities } from '../cli/utils/index.js';
+import { ArtifactUtils } from '../cli/utils/artifact.js';
+import { Command } from 'commander';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Keep the response cache of commands run against mock nodes out of ~/.cache/cazt
+const testCacheDir = mkdtempSync(join(tmpdir(), 'cazt-cache-'));
+process.env.CAZT_CACHE_DIR = testCacheDir;
 
 // Mock console methods to capture output
 let consoleOutput: string[] = [];
@@ -531,4 +560,974 @@ describe('CLI Commands', () => {
       expect(output).toContain('0x0000000000000000000000000000000000000000000000000000000000000000');
     });
   });
+
+  describe('replay mode', () => {
+    const fixturesDir = mkdtempSync(join(tmpdir(), 'cazt-replay-'));
+    const store = new FixtureStore(fixturesDir);
+    store.write({ method: 'node_getBlockNumber', params: [], result: 42 });
+    store.write({ method: 'node_getTxReceipt', params: ['0x01'], error: { code: -32000, message: 'boom' } });
+
+    it('should serve recorded responses', async () => {
+      const output = await executeCommand(['--replay', fixturesDir, 'block', 'number']);
+      
+      expect(output).toBe('42');
+    });
+
+    it('should replay recorded RPC errors', async () => {
+      const output = await executeCommand(['--replay', fixturesDir, 'tx', 'receipt', '--hash', '0x01'], true);
+      
+      expect(output).toContain('boom');
+    });
+
+    it('should fail on a missing fixture', async () => {
+      const output = await executeCommand(['--replay', fixturesDir, 'block', 'proven-number'], true);
+      
+      expect(output).toContain('No recorded response for node_getProvenBlockNumber');
+    });
+  });
+
+  describe('mock-node', () => {
+    let node: MockNode;
+    let client: RpcClient;
+
+    beforeAll(async () => {
+      node = await startMockNode({
+        port: 0,
+        state: {
+          blockNumber: 7,
+          txReceipts: { '0xabc': { txHash: '0xabc', status: 'success', blockNumber: 5 } },
+          methods: { node_getEncodedEnr: 'enr:-mock' },
+        },
+      });
+      client = new RpcClient({ rpcUrl: node.url, adminUrl: node.url, pretty: true, retries: 0 });
+    });
+
+    afterAll(async () => {
+      await node.close();
+    });
+
+    it('should serve scripted state', async () => {
+      expect(await client.call('node_getBlockNumber', [])).toBe(7);
+      expect(await client.call('node_getTxReceipt', ['0xABC'])).toMatchObject({ status: 'success' });
+      expect(await client.call('node_getEncodedEnr', [])).toBe('enr:-mock');
+    });
+
+    it('should route admin methods', async () => {
+      await client.call('nodeAdmin_setConfig', [{ archiverPollingIntervalMS: 100 }]);
+      
+      expect(await client.call('nodeAdmin_getConfig', [])).toEqual({ archiverPollingIntervalMS: 100 });
+    });
+
+    it('should reject unknown methods', async () => {
+      await expect(client.call('node_doesNotExist', [])).rejects.toThrow('Method not found');
+    });
+
+    it('should answer batches with per-entry results and errors', async () => {
+      const entries = await client.callBatch([
+        { method: 'node_getBlockNumber', params: [] },
+        { method: 'node_doesNotExist', params: [] },
+        { method: 'node_getChainId', params: [] },
+      ]);
+      
+      expect(entries[0]).toEqual({ method: 'node_getBlockNumber', result: 7 });
+      expect(entries[1].error?.code).toBe(-32601);
+      expect(entries[2]).toEqual({ method: 'node_getChainId', result: 31337 });
+    });
+
+    it('should handle every registered method', async () => {
+      const field = '0x0000000000000000000000000000000000000000000000000000000000000001';
+      const samples: Record<ParamType, any> = {
+        blockNumber: 1, blockParameter: 'latest', integer: 1, bigint: '1', boolean: true, field, 'field[]': [field],
+        aztecAddress: field, ethAddress: '0x0000000000000000000000000000000000000001', txHash: field, treeId: 1,
+        slashRound: '1', string: 's3://snapshots', json: {},
+      };
+      for (const [method, spec] of Object.entries(METHODS)) {
+        const params = validateParams(method, spec.params.map((param) => samples[param.type]));
+        // Rejects with "Method not found: <method>" for a method without a handler
+        await client.call(method, params);
+      }
+    });
+
+    it('should serve tree leaves, messages and logs from the state', async () => {
+      const noteHash = '0x0000000000000000000000000000000000000000000000000000000000000022';
+      node.state.treeLeaves = { 1: ['0x11', noteHash] };
+      node.state.l1ToL2Messages = { [noteHash]: 9 };
+      node.state.publicLogs = [
+        { id: { blockNumber: 3, txHash: '0xabc' }, log: { contractAddress: '0x01', fields: [] } },
+        { id: { blockNumber: 4, txHash: '0xdef' }, log: { contractAddress: '0x02', fields: [] } },
+      ];
+      
+      expect(await client.call('node_findLeavesIndexes', ['latest', 1, [noteHash, '0x33']])).toEqual([expect.objectContaining({ data: '1' }), null]);
+      expect(await client.call('node_getNoteHashMembershipWitness', ['latest', noteHash])).toMatchObject({ leafIndex: '1' });
+      expect(await client.call('node_isL1ToL2MessageSynced', [noteHash])).toBe(false);
+      expect(await client.call('node_getL1ToL2MessageBlock', [noteHash])).toBe(9);
+      expect((await client.call('node_getPublicLogs', [{ contractAddress: '0x02' }])).logs).toEqual([node.state.publicLogs[1]]);
+    });
+  });
+
+  describe('response cache', () => {
+    const cacheDir = mkdtempSync(join(tmpdir(), 'cazt-response-cache-'));
+    let node: MockNode;
+
+    beforeAll(async () => {
+      process.env.CAZT_CACHE_DIR = cacheDir;
+      program.setOptionValueWithSource('replay', undefined, 'default');
+      node = await startMockNode({
+        port: 0,
+        state: {
+          blockNumber: 10,
+          provenBlockNumber: 5,
+          blockHeaders: { 1: { number: 1, timestamp: 100 }, 5: { number: 5, tag: 'old' }, 8: { number: 8, tag: 'old' } },
+        },
+      });
+    });
+
+    afterAll(async () => {
+      await node.close();
+      program.setOptionValueWithSource('cache', true, 'default');
+      program.setOptionValueWithSource('rpcUrl', resolveRpcUrl(undefined), 'default');
+      process.env.CAZT_CACHE_DIR = testCacheDir;
+    });
+
+    const header = async (number: number, ...globals: string[]) =>
+      JSON.parse(await executeCommand(['--rpc-url', node.url, ...globals, 'block', 'header', '--number', String(number)]));
+
+    it('should serve proven blocks from the cache and fetch the rest', async () => {
+      expect((await header(5)).tag).toBe('old');
+      expect((await header(8)).tag).toBe('old');
+      node.state.blockHeaders![5] = { number: 5, tag: 'new' };
+      node.state.blockHeaders![8] = { number: 8, tag: 'new' };
+      
+      expect((await header(5)).tag).toBe('old');
+      expect((await header(8)).tag).toBe('new');
+      expect((await header(5, '--no-cache')).tag).toBe('new');
+      program.setOptionValueWithSource('cache', true, 'default');
+      
+      const stats = JSON.parse(await executeCommand(['cache', 'stats']));
+      expect(stats.chains).toEqual([expect.objectContaining({ entries: 1, methods: { node_getBlockHeader: { entries: 1, bytes: expect.any(Number) } } })]);
+      
+      const { removed } = JSON.parse(await executeCommand(['cache', 'clear', '--chain', '31337']));
+      expect(removed).toEqual([stats.chains[0].chain]);
+      expect((await header(5)).tag).toBe('new');
+    });
+
+    it('should not serve the history of a restarted chain', async () => {
+      node.state.blockHeaders = { 1: { number: 1, timestamp: 200 }, 5: { number: 5, tag: 'before restart' } };
+      expect((await header(5)).tag).toBe('before restart');
+      
+      node.state.blockHeaders = { 1: { number: 1, timestamp: 300 }, 5: { number: 5, tag: 'after restart' } };
+      expect((await header(5)).tag).toBe('after restart');
+    });
+  });
+
+  describe('node compare', () => {
+    const headers = (forkAt: number, tag: string) => Object.fromEntries(
+      Array.from({ length: 10 }, (_, i) => [i + 1, { number: i + 1, fork: i + 1 >= forkAt ? tag : 'main' }]),
+    );
+    let nodes: MockNode[];
+
+    beforeAll(async () => {
+      nodes = await Promise.all([
+        startMockNode({ port: 0, state: { blockNumber: 10, blockHeaders: headers(99, 'a') } }),
+        startMockNode({ port: 0, state: { blockNumber: 10, blockHeaders: headers(6, 'b') } }),
+      ]);
+    });
+
+    afterAll(async () => {
+      await Promise.all(nodes.map((node) => node.close()));
+    });
+
+    it('should find the first divergent block', async () => {
+      const targets = nodes.map((node) => ({
+        url: node.url,
+        client: new RpcClient({ rpcUrl: node.url, adminUrl: node.url, pretty: true, retries: 0 }),
+      }));
+      const result = await compareNodes(targets, { maxLag: 2, ignoreVersionSkew: false });
+      
+      expect(result.consistent).toBe(false);
+      expect(result.divergence.firstDivergentBlock).toBe(6);
+      expect(result.laggingNodes).toEqual([]);
+    });
+  });
+
+  describe('method registry', () => {
+    it('should coerce block numbers, tree ids and field elements', () => {
+      expect(validateParams('node_getBlock', ['12'])).toEqual([12]);
+      expect(validateParams('node_getBlock', ['latest'])).toEqual(['latest']);
+      expect(validateParams('node_findLeavesIndexes', ['latest', 'note-hash', ['0x1', '42']])).toEqual([
+        'latest',
+        1,
+        ['0x1', '0x000000000000000000000000000000000000000000000000000000000000002a'],
+      ]);
+    });
+
+    it('should reject invalid params', () => {
+      expect(() => validateParams('node_getBlock', ['abc'])).toThrow('blockNumber: expected a block number or "latest"');
+      expect(() => validateParams('node_getContract', [])).toThrow('missing required param "address"');
+      expect(() => validateParams('node_getContract', [`0x${'f'.repeat(64)}`])).toThrow('BN254 modulus');
+    });
+
+    it('should fail before sending invalid params', async () => {
+      const output = await executeCommand(['raw', '--method', 'node_getBlock', '--params', '["abc"]'], true);
+      
+      expect(output).toContain('Invalid params for node_getBlock');
+    });
+
+    it('should describe a method', async () => {
+      const output = await executeCommand(['raw', '--describe', 'node_getBlock']);
+      
+      expect(output).toContain('node_getBlock(blockNumber: number | "latest") -> L2Block | undefined');
+      // Subcommand options keep their values between parses
+      program.commands.find((command) => command.name() === 'raw')!.setOptionValueWithSource('describe', undefined, 'default');
+    });
+  });
+
+  describe('timeouts', () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+      // Accepts requests but never answers
+      server = createServer(() => {});
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should abort requests to a stuck node', async () => {
+      const client = new RpcClient({ rpcUrl: url, adminUrl: url, pretty: true, retries: 0, timeout: 100 });
+      
+      await expect(client.call('node_getBlockNumber', [])).rejects.toThrow(TimeoutError);
+    });
+
+    it('should stop waiting for a node that never becomes ready', async () => {
+      const node = { getNodeInfo: () => Promise.reject(new Error('not ready')) };
+      
+      await expect(waitForNodeReady(node, 200, url)).rejects.toThrow(`Node at ${url} not ready after 200ms`);
+    });
+  });
+
+  describe('retries', () => {
+    let node: MockNode;
+    let client: RpcClient;
+
+    beforeAll(async () => {
+      node = await startMockNode({ port: 0, state: { blockNumber: 3 } });
+      client = new RpcClient({ rpcUrl: node.url, adminUrl: node.url, pretty: true, retries: 2, retryDelay: 1 });
+    });
+
+    afterAll(async () => {
+      await node.close();
+    });
+
+    it('should back off exponentially with jitter, up to the max delay', () => {
+      const options = { retries: 5, retryDelay: 100, maxDelay: 1000 };
+      for (let i = 0; i < 20; i++) {
+        expect(computeBackoff(0, options)).toBeGreaterThanOrEqual(50);
+        expect(computeBackoff(0, options)).toBeLessThanOrEqual(100);
+        expect(computeBackoff(2, options)).toBeGreaterThanOrEqual(200);
+        expect(computeBackoff(2, options)).toBeLessThanOrEqual(400);
+        expect(computeBackoff(10, options)).toBeLessThanOrEqual(1000);
+      }
+    });
+
+    it('should retry rate limits and gateway errors', async () => {
+      node.state.httpErrors = [{ status: 503 }, { status: 429, retryAfter: '0' }];
+      
+      expect(await client.call('node_getBlockNumber', [])).toBe(3);
+      expect(node.state.httpErrors).toEqual([]);
+    });
+
+    it('should not retry other HTTP errors', async () => {
+      node.state.httpErrors = [{ status: 400 }, { status: 503 }];
+      
+      await expect(client.call('node_getBlockNumber', [])).rejects.toMatchObject({ status: 400 });
+      expect(node.state.httpErrors).toEqual([{ status: 503 }]);
+      node.state.httpErrors = [];
+    });
+
+    it('should give up after the last retry', async () => {
+      node.state.httpErrors = [{ status: 502 }, { status: 502 }, { status: 502 }, { status: 502 }];
+      
+      await expect(client.call('node_getBlockNumber', [])).rejects.toBeInstanceOf(TransportError);
+      expect(node.state.httpErrors).toHaveLength(1);
+      node.state.httpErrors = [];
+    });
+
+    it('should cap the Retry-After delay', async () => {
+      let attempts = 0;
+      const started = Date.now();
+      const result = await withRetry(async () => {
+        if (attempts++ === 0) {
+          throw new TransportError('rate limited', 429, 60_000);
+        }
+        return 'ok';
+      }, { ...DEFAULT_RETRY_OPTIONS, maxDelay: 10 });
+      
+      expect(result).toBe('ok');
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    it('should send --header values and trace every attempt', async () => {
+      const headers: string[] = [];
+      const traced = await startMockNode({ port: 0, state: { blockNumber: 4, httpErrors: [{ status: 503 }] }, onRequest: (_method, _params, _response, requestHeaders) => {
+        headers.push(String(requestHeaders['x-api-key']));
+      } });
+      try {
+        const output = await executeCommand(['--rpc-url', traced.url, '--retry-delay', '1', '--header', 'X-Api-Key: secret', '--trace', 'block', 'number']);
+        const lines = output.split('\n');
+        
+        expect(headers).toEqual(['secret']);
+        expect(lines[0]).toMatch(new RegExp(`^\\[trace\\] node ${traced.url} node_getBlockNumber \\[\\] -> 503 \\d+ms error: `));
+        expect(lines[1]).toMatch(new RegExp(`^\\[trace\\] node ${traced.url} node_getBlockNumber \\[\\] \\(retry 1\\) -> 200 \\d+B \\d+ms$`));
+        expect(lines[2]).toBe('4');
+      } finally {
+        await traced.close();
+        program.setOptionValueWithSource('header', [], 'default');
+        program.setOptionValueWithSource('trace', false, 'default');
+        program.setOptionValueWithSource('retryDelay', String(DEFAULT_RETRY_OPTIONS.retryDelay), 'default');
+        program.setOptionValueWithSource('rpcUrl', resolveRpcUrl(undefined), 'default');
+      }
+    });
+  });
+
+  describe('config profiles', () => {
+    const configDir = mkdtempSync(join(tmpdir(), 'cazt-config-'));
+
+    beforeAll(() => {
+      process.env.CAZT_CONFIG_DIR = configDir;
+    });
+
+    afterAll(() => {
+      delete process.env.CAZT_CONFIG_DIR;
+      delete process.env.CAZT_PROFILE;
+    });
+
+    it('should set and read profile values', async () => {
+      setProfileValue(getGlobalConfigPath(), 'dev', 'rpcUrl', 'http://dev:8080');
+      setProfileValue(getGlobalConfigPath(), 'dev', 'headers.Authorization', 'Bearer token');
+      process.env.CAZT_PROFILE = 'dev';
+      
+      expect(await executeCommand(['config', 'get', 'rpcUrl'])).toBe('http://dev:8080');
+      expect(JSON.parse(await executeCommand(['config', 'get', 'headers']))).toEqual({ Authorization: 'Bearer token' });
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => setProfileValue(getGlobalConfigPath(), 'dev', 'format', 'xml')).toThrow('Invalid format');
+      expect(() => setProfileValue(getGlobalConfigPath(), 'dev', 'colour', 'red')).toThrow('Unknown config key');
+    });
+
+    it('should use the profile format as the default --format', async () => {
+      setProfileValue(getGlobalConfigPath(), 'dev', 'format', 'yaml');
+      process.env.CAZT_PROFILE = 'dev';
+      try {
+        expect(await executeCommand(['hash-zero'])).toBe('value: "0x0000000000000000000000000000000000000000000000000000000000000000"');
+        expect(JSON.parse(await executeCommand(['--json', 'hash-zero']))).toEqual({ value: expect.any(String) });
+      } finally {
+        program.setOptionValueWithSource('format', undefined, 'default');
+        program.setOptionValueWithSource('json', false, 'default');
+      }
+    });
+
+    it('should fail on an unknown profile', () => {
+      process.env.CAZT_PROFILE = 'missing';
+      
+      expect(() => getActiveProfile(undefined)).toThrow('Profile "missing" not found (available: dev)');
+    });
+  });
+
+  describe('network registry', () => {
+    let node: MockNode;
+    let client: RpcClient;
+
+    beforeAll(async () => {
+      node = await startMockNode({ port: 0, state: { chainId: 31337, version: 7 } });
+      client = new RpcClient({ rpcUrl: node.url, adminUrl: node.url, pretty: true, retries: 0 });
+    });
+
+    afterAll(async () => {
+      await node.close();
+    });
+
+    it('should resolve registered network names', () => {
+      registerNetworks({ MySandbox: { rpcUrl: node.url } });
+      
+      expect(resolveRpcUrl('mysandbox')).toBe(node.url);
+    });
+
+    it('should accept a node matching the pinned identity', async () => {
+      const network = { name: 'sandbox', rpcUrl: node.url, chainId: 31337, rollupVersion: 7 };
+      
+      expect(await verifyNetworkIdentity(client, network)).toEqual({ chainId: 31337, rollupVersion: 7 });
+    });
+
+    it('should refuse a node with a different identity', async () => {
+      const network = { name: 'sandbox', rpcUrl: node.url, chainId: 11155111, rollupVersion: 7 };
+      
+      await expect(verifyNetworkIdentity(client, network)).rejects.toThrow('reports chain id 31337 (pinned: 11155111)');
+    });
+
+    it('should refuse a node of a redeployed rollup', async () => {
+      node.state.l1ContractAddresses = { rollupAddress: '0x00000000000000000000000000000000000000aa' };
+      const network = { name: 'sandbox', rpcUrl: node.url, chainId: 31337, rollupVersion: 7, l1ContractAddresses: { rollupAddress: '0x00000000000000000000000000000000000000BB' } };
+      
+      await expect(verifyNetworkIdentity(client, network)).rejects.toThrow('reports rollup address 0x00000000000000000000000000000000000000aa');
+    });
+
+    it('should check the methods sent by raw and batch calls', async () => {
+      const batchFile = join(mkdtempSync(join(tmpdir(), 'cazt-batch-')), 'calls.json');
+      writeFileSync(batchFile, JSON.stringify([{ method: 'node_getBlockNumber' }, { method: 'nodeAdmin_pauseSync' }]));
+      registerNetworks({ pinned: { rpcUrl: node.url, chainId: 1 } });
+      
+      expect(await executeCommand(['--rpc-url', 'pinned', 'raw', '--method', 'node_getBlockNumber', '--params', '[]'])).toBe('0');
+      expect(await executeCommand(['--rpc-url', 'pinned', 'raw', '--method', 'node_sendTx', '--params', '[{}]'], true)).toContain('reports chain id 31337 (pinned: 1)');
+      expect(await executeCommand(['--rpc-url', 'pinned', 'batch', '--file', batchFile], true)).toContain('reports chain id 31337 (pinned: 1)');
+      expect(node.state.pendingTxs).toBeUndefined();
+      program.setOptionValueWithSource('rpcUrl', resolveRpcUrl(undefined), 'default');
+    });
+  });
+
+  describe('address book', () => {
+    const configDir = mkdtempSync(join(tmpdir(), 'cazt-labels-'));
+    const address = '0x0000000000000000000000000000000000000000000000000000000000000abc';
+
+    beforeAll(() => {
+      process.env.CAZT_CONFIG_DIR = configDir;
+    });
+
+    afterAll(() => {
+      delete process.env.CAZT_CONFIG_DIR;
+    });
+
+    it('should resolve @labels in address options', async () => {
+      await executeCommand(['label', 'set', 'token', address]);
+      const labeled = await executeCommand(['silo-nullifier', '--contract', '@token', '--nullifier', '0x01']);
+      const plain = await executeCommand(['silo-nullifier', '--contract', address, '--nullifier', '0x01']);
+      
+      expect(labeled).toBe(plain);
+    });
+
+    it('should fail on an unknown label', async () => {
+      await expect(executeCommand(['silo-nullifier', '--contract', '@nope', '--nullifier', '0x01'])).rejects.toThrow('Unknown label "@nope"');
+    });
+
+    it('should resolve @labels of Ethereum addresses', async () => {
+      const validator = '0x00000000000000000000000000000000000000aa';
+      const node = await startMockNode({ port: 0, state: { validatorsStats: { stats: { [validator]: { address: validator, totalSlots: 3 } } } } });
+      try {
+        await executeCommand(['--rpc-url', node.url, 'label', 'set', 'validator', validator]);
+        const output = JSON.parse(await executeCommand(['--rpc-url', node.url, 'validators', 'one', '--address', '@validator']));
+        
+        expect(output.validator).toEqual({ address: validator, totalSlots: 3 });
+      } finally {
+        await node.close();
+        program.setOptionValueWithSource('rpcUrl', resolveRpcUrl(undefined), 'default');
+      }
+    });
+
+    it('should find labels of addresses in a result', () => {
+      expect(findLabels({ contract: { address: '0xABC' }, other: '0x01' }, { token: address })).toEqual({ '0xABC': 'token' });
+    });
+  });
+
+  describe('keystore', () => {
+    const configDir = mkdtempSync(join(tmpdir(), 'cazt-keystore-'));
+    const secretKey = '0x0000000000000000000000000000000000000000000000000000000000001234';
+
+    beforeAll(() => {
+      process.env.CAZT_CONFIG_DIR = configDir;
+      process.env.CAZT_KEYSTORE_PASSWORD = 'correct horse';
+    });
+
+    afterAll(() => {
+      delete process.env.CAZT_CONFIG_DIR;
+      delete process.env.CAZT_KEYSTORE_PASSWORD;
+    });
+
+    it('should import, list, export and remove an account', async () => {
+      await executeCommand(['keystore', 'import', 'alice', '--secret-key', secretKey]);
+      
+      const list = JSON.parse(await executeCommand(['keystore', 'list']));
+      expect(list).toEqual([expect.objectContaining({ name: 'alice', type: 'schnorr' })]);
+      expect(JSON.stringify(list)).not.toContain('1234');
+      
+      const exported = JSON.parse(await executeCommand(['keystore', 'export', 'alice']));
+      expect(exported.secretKey).toBe(secretKey);
+      expect(BigInt(exported.salt)).toBe(0n);
+      
+      await executeCommand(['keystore', 'remove', 'alice']);
+      expect(JSON.parse(await executeCommand(['keystore', 'list']))).toEqual([]);
+    });
+
+    it('should reject a wrong password', async () => {
+      await executeCommand(['keystore', 'new', 'bob']);
+      expect(() => loadAccount('bob', 'wrong')).toThrow('Wrong password for account "bob"');
+    });
+
+    it('should accept short field values', async () => {
+      await executeCommand(['keystore', 'import', 'carol', '--secret-key', '0x1234', '--salt', '0x7']);
+      
+      const exported = JSON.parse(await executeCommand(['keystore', 'export', 'carol']));
+      expect(exported.secretKey).toBe(secretKey);
+      expect(BigInt(exported.salt)).toBe(7n);
+    });
+  });
+
+  describe('shell completion', () => {
+    it('should print completion scripts', async () => {
+      expect(await executeCommand(['completions', 'bash'])).toContain('complete -o default -F _cazt cazt');
+      expect(await executeCommand(['completions', 'fish'])).toContain('complete -c cazt');
+    });
+
+    it('should complete commands and flags from the command tree', async () => {
+      expect((await executeCommand(['__complete', '--', 'deploy', 'with-'])).split('\n')).toEqual(['with-salt', 'with-args']);
+      const flags = (await executeCommand(['__complete', '--', 'deploy', 'simple', '--'])).split('\n');
+      expect(flags).toEqual(expect.arrayContaining(['--artifact', '--account', '--rpc-url']));
+      expect(await executeCommand(['__complete', '--', 'completions', 'z'])).toBe('zsh');
+      // Hidden commands aren't offered
+      expect(await executeCommand(['__complete', '--', '__'])).toBe('');
+    });
+
+    it('should complete storage slot names from the chosen artifact', async () => {
+      const artifact = join(mkdtempSync(join(tmpdir(), 'cazt-completion-')), 'artifact.json');
+      writeFileSync(artifact, JSON.stringify({ name: 'Test', storageLayout: { balances: { slot: '0x1' }, admin: { slot: '0x2' } } }));
+      
+      const output = await executeCommand(['__complete', '--', 'notes', 'fetch', '--artifact', artifact, '--storage-slot-name', 'b']);
+      expect(output).toBe('balances');
+    });
+  });
+
+  describe('console', () => {
+    const effect = { data: { txHash: '0x12', noteHashes: ['0xaa', '0xbb'] } };
+    let runs: [string[], boolean][];
+    let session: ConsoleSession;
+
+    beforeEach(() => {
+      runs = [];
+      session = new ConsoleSession({
+        run: async (words, capture) => {
+          runs.push([words, capture]);
+          return capture ? JSON.stringify(effect) : undefined;
+        },
+      });
+    });
+
+    it('should store command output in variables and read paths', async () => {
+      await session.evaluate('$r = tx effect --hash 0x12');
+      
+      expect(runs).toEqual([[['tx', 'effect', '--hash', '0x12'], true]]);
+      expect(await session.evaluate('$r.data.noteHashes[1]')).toBe('0xbb');
+      expect(JSON.parse((await session.evaluate('$r.data'))!)).toEqual(effect.data);
+    });
+
+    it('should substitute variables in command arguments', async () => {
+      await session.evaluate('$r = tx effect --hash 0x12');
+      await session.evaluate('$h = $r.data.txHash');
+      await session.evaluate(`tx receipt --hash $h --note '$h'`);
+      
+      expect(runs[1]).toEqual([['tx', 'receipt', '--hash', '0x12', '--note', '$h'], false]);
+    });
+
+    it('should reject unknown variables', async () => {
+      await expect(session.evaluate('$nope.data')).rejects.toThrow('Unknown variable $nope');
+    });
+  });
+
+  describe('plan runner', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'cazt-plan-'));
+    const address = '0x0000000000000000000000000000000000000000000000000000000000000abc';
+
+    async function runPlanFile(plan: any, expectFailure = false): Promise<any> {
+      const planPath = join(dir, 'plan.json');
+      const reportPath = join(dir, 'report.json');
+      writeFileSync(planPath, JSON.stringify(plan));
+      await executeCommand(['run', planPath, '--report', reportPath], expectFailure);
+      return JSON.parse(readFileSync(reportPath, 'utf-8'));
+    }
+
+    it('should pass step outputs and env values to later steps', async () => {
+      const report = await runPlanFile({
+        env: { CONTRACT: address },
+        steps: [
+          { id: 'silo', command: 'silo-nullifier', options: { contract: address, nullifier: '0x01' } },
+          {
+            id: 'again',
+            command: ['silo-nullifier', '--nullifier', '0x01'],
+            options: { contract: '${env.CONTRACT}' },
+            assert: [{ path: 'value', equals: '${steps.silo.value}' }, { path: 'value', matches: '^0x[0-9a-f]{64}$' }],
+          },
+        ],
+      });
+      
+      expect(report.success).toBe(true);
+      expect(report.steps.map((step: any) => step.status)).toEqual(['passed', 'passed']);
+      expect(report.steps[1].command).toEqual(['silo-nullifier', '--nullifier', '0x01', '--contract', address]);
+    });
+
+    it('should report failures and skip the remaining steps unless continuing on error', async () => {
+      const report = await runPlanFile({
+        steps: [
+          { id: 'bad', command: 'raw', options: { method: 'node_bogus' }, continueOnError: true },
+          { id: 'assert', command: 'silo-nullifier', options: { contract: address, nullifier: '0x01' }, assert: [{ path: 'value', equals: '0x01' }] },
+          { id: 'never', command: 'hash-zero' },
+        ],
+      }, true);
+      
+      expect(report.success).toBe(false);
+      expect(report.steps.map((step: any) => step.status)).toEqual(['failed', 'failed', 'skipped']);
+      expect(report.steps[0].error).toContain('Unknown method: node_bogus');
+      expect(report.steps[1].error).toContain('Assertion failed');
+    });
+  });
+
+  describe('output formats', () => {
+    let node: MockNode;
+    const stats = {
+      stats: {
+        '0x01': { address: '0x01', totalSlots: 3, missedProposals: { count: 1 } },
+        '0x02': { address: '0x02', totalSlots: 2, missedProposals: { count: 0 } },
+      },
+      lastProcessedSlot: 10,
+    };
+
+    // Global options keep their values between parses
+    function resetGlobalOptions(): void {
+      for (const [key, value] of Object.entries({ json: false, format: undefined, human: undefined, columns: [], select: undefined, replay: undefined, rpcUrl: resolveRpcUrl(undefined) })) {
+        program.setOptionValueWithSource(key, value, 'default');
+      }
+    }
+
+    beforeAll(async () => {
+      resetGlobalOptions();
+      node = await startMockNode({
+        port: 0,
+        state: {
+          blockNumber: 7,
+          txReceipts: { '0xabc': { txHash: '0xabc', status: 'success', blockNumber: 5, transactionFee: '0x2710' } },
+          blockHeaders: {
+            5: {
+              lastArchive: { root: '0x0a', nextAvailableLeafIndex: 5 },
+              state: { l1ToL2MessageTree: { root: '0x0b', nextAvailableLeafIndex: 16 }, partial: { noteHashTree: { root: '0x0c', nextAvailableLeafIndex: 64 } } },
+              globalVariables: { chainId: '0x7a69', version: '0x01', blockNumber: 5, slotNumber: '0x20', timestamp: '0x67748580', gasFees: { feePerDaGas: '0x00', feePerL2Gas: '0x0a' } },
+            },
+          },
+          methods: { node_getValidatorsStats: stats },
+        },
+      });
+    });
+
+    afterEach(resetGlobalOptions);
+
+    afterAll(async () => {
+      await node.close();
+    });
+
+    it('should flatten maps of validators into table and csv rows', async () => {
+      const table = await executeCommand(['--rpc-url', node.url, '--format', 'table', 'validators', 'stats']);
+      expect(table.split('\n')).toEqual([
+        'key   address  totalSlots  missedProposals.count',
+        '0x01  0x01     3           1',
+        '0x02  0x02     2           0',
+      ]);
+      
+      const csv = await executeCommand(['--rpc-url', node.url, '--format', 'csv', '--columns', 'address,missedProposals', 'validators', 'stats']);
+      expect(csv).toBe('address,missedProposals.count\n0x01,1\n0x02,0');
+    });
+
+    it('should print raw, yaml and ndjson output', async () => {
+      expect(await executeCommand(['--rpc-url', node.url, '--format', 'raw', 'block', 'number'])).toBe('7');
+      
+      const yaml = await executeCommand(['--format', 'yaml', 'hash-zero']);
+      expect(yaml).toBe('value: "0x0000000000000000000000000000000000000000000000000000000000000000"');
+      
+      const ndjson = await executeCommand(['--rpc-url', node.url, '--format', 'ndjson', 'validators', 'stats']);
+      expect(ndjson.split('\n').map((line) => JSON.parse(line).key)).toEqual(['0x01', '0x02']);
+    });
+
+    it('should reject --columns outside row formats and unknown columns', async () => {
+      await executeCommand(['--format', 'json', '--columns', 'address', 'hash-zero'], true);
+      expect(consoleOutput.join('\n')).toContain('--columns needs --format table, csv, ndjson');
+      
+      await expect(executeCommand(['--rpc-url', node.url, '--format', 'table', '--columns', 'nope', 'validators', 'stats'])).rejects.toThrow('Unknown column "nope"');
+    });
+
+    it('should render headers and receipts for humans', async () => {
+      const header = await executeCommand(['--rpc-url', node.url, '--human', 'block', 'header', '--number', '5']);
+      expect(header).toContain('Block header 5');
+      expect(header).toMatch(/Chain id\s+31337/);
+      expect(header).toMatch(/Timestamp\s+2025-01-01T00:00:00.000Z \(1735689600\)/);
+      expect(header).toMatch(/Gas fees\s+10 per L2 gas, 0 per DA gas/);
+      expect(header).toMatch(/Note hash tree\s+0x0c \(next leaf index 64\)/);
+      
+      const receipt = await executeCommand(['--rpc-url', node.url, '--format', 'pretty', 'tx', 'receipt', '--hash', '0xabc']);
+      expect(receipt.split('\n')).toEqual(['Transaction 0xabc', '  Status  success', '  Fee     10000', '  Block   5']);
+      
+      const json = await executeCommand(['--rpc-url', node.url, '--human', '--format', 'json', 'tx', 'receipt', '--hash', '0xabc']);
+      expect(JSON.parse(json)).toEqual(expect.objectContaining({ status: 'success' }));
+    });
+
+    it('should select a single value as a raw scalar', async () => {
+      expect(await executeCommand(['--rpc-url', node.url, '--select', 'status', 'tx', 'receipt', '--hash', '0xabc'])).toBe('success');
+      expect(await executeCommand(['--json', '--select', 'value', 'hash-zero'])).toBe('0x0000000000000000000000000000000000000000000000000000000000000000');
+      expect(await executeCommand(['--rpc-url', node.url, '--format', 'json', '--select', 'blockNumber', 'tx', 'receipt', '--hash', '0xabc'])).toBe('5');
+    });
+
+    it('should select wildcard paths before formatting', async () => {
+      const output = await executeCommand(['--rpc-url', node.url, '--select', 'stats.*.missedProposals.count', 'validators', 'stats']);
+      expect(JSON.parse(output)).toEqual([1, 0]);
+      
+      const csv = await executeCommand(['--rpc-url', node.url, '--format', 'csv', '--select', 'stats["0x02"]', 'validators', 'stats']);
+      expect(csv).toBe('address,totalSlots,missedProposals.count\n0x02,2,0');
+    });
+
+    it('should reject invalid paths', async () => {
+      await executeCommand(['--select', 'data[x]', 'hash-zero'], true);
+      expect(consoleOutput.join('\n')).toContain('Invalid path "data[x]"');
+    });
+  });
+
+  describe('error envelope', () => {
+    it('should classify errors into kinds with stable exit codes', () => {
+      expect(classifyError(new RpcError({ code: -32601, message: 'Method not found', data: 'node_foo' }))).toEqual({
+        kind: 'rpc',
+        message: 'RPC error: {"code":-32601,"message":"Method not found","data":"node_foo"}',
+        rpcCode: -32601,
+        data: 'node_foo',
+      });
+      expect(classifyError(new TimeoutError('Request timed out', 100)).kind).toBe('timeout');
+      expect(classifyError(new TransportError('HTTP 503', 503))).toMatchObject({ kind: 'transport', data: { status: 503 } });
+      expect(classifyError(new ValidationError('expected a field')).kind).toBe('invalid_input');
+      expect(classifyError(new NotFoundError('Artifact "Foo" not found')).kind).toBe('not_found');
+      expect(classifyError(new Error('Transaction 0x0abc was app_logic_reverted. Reason: assertion failed'))).toMatchObject({
+        kind: 'reverted',
+        data: { txHash: '0x0abc', status: 'app_logic_reverted' },
+      });
+      expect(classifyError(new Error('boom')).kind).toBe('error');
+      expect(Object.values(EXIT_CODES)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    });
+
+    it('should print a JSON envelope on stderr under --json and exit with the kind code', async () => {
+      try {
+        await expect(executeCommand(['--json', 'label', 'rm', 'nope'])).rejects.toThrow(`Process exited with code ${EXIT_CODES.not_found}`);
+        expect(JSON.parse(consoleOutput[0])).toEqual({ error: { kind: 'not_found', message: expect.stringContaining('label "nope" not found') } });
+      } finally {
+        program.setOptionValueWithSource('json', false, 'default');
+      }
+    });
+
+    it('should exit with the not_found code for a missing artifact', async () => {
+      try {
+        await expect(executeCommand(['--json', 'storage-layout', '--artifact', 'aztec:NoSuchThingXYZ'])).rejects.toThrow(`Process exited with code ${EXIT_CODES.not_found}`);
+        expect(JSON.parse(consoleOutput[0])).toEqual({ error: { kind: 'not_found', message: expect.stringContaining('Artifact "NoSuchThingXYZ" not found in aztec artifacts') } });
+        expect(() => ArtifactUtils.resolveArtifact('aztec:NoSuchThingXYZ')).toThrow(NotFoundError);
+      } finally {
+        program.setOptionValueWithSource('json', false, 'default');
+      }
+    });
+
+    it('should exit with the invalid_input code for missing or invalid options', async () => {
+      const computeHash = program.commands.find((c) => c.name() === 'notes')!.commands.find((c) => c.name() === 'compute-hash')!;
+      try {
+        await expect(executeCommand(['--json', 'notes', 'compute-hash', '--siloed-note-hash', '0x1'])).rejects.toThrow(`Process exited with code ${EXIT_CODES.invalid_input}`);
+        expect(JSON.parse(consoleOutput[0])).toEqual({ error: { kind: 'invalid_input', message: '--contract is required when using --siloed-note-hash' } });
+        await expect(executeCommand(['--json', 'decrypt-private-log', '--ciphertext', '0x1', '--recipient-address', '0x2'])).rejects.toThrow(`Process exited with code ${EXIT_CODES.invalid_input}`);
+        expect(JSON.parse(consoleOutput[0])).toEqual({ error: { kind: 'invalid_input', message: '--recipient-secret-key or --account is required' } });
+      } finally {
+        program.setOptionValueWithSource('json', false, 'default');
+        computeHash.setOptionValueWithSource('siloedNoteHash', undefined, 'default');
+      }
+    });
+
+    it('should reject invalid retry and timeout options as invalid input', async () => {
+      try {
+        await expect(executeCommand(['--retries', 'abc', 'block', 'number'])).rejects.toMatchObject({ name: 'ValidationError', message: 'Invalid retries value: abc' });
+        expect(() => resolveRetryOptions({ retryDelay: '-1' })).toThrow(ValidationError);
+        expect(() => parseTimeout('soon')).toThrow(ValidationError);
+      } finally {
+        program.setOptionValueWithSource('retries', String(DEFAULT_RETRY_OPTIONS.retries), 'default');
+      }
+    });
+
+    it('should print usage errors in the JSON envelope under --json', async () => {
+      try {
+        await expect(executeCommand(['--json', 'hash-zero', '--bogus'])).rejects.toThrow(`Process exited with code ${EXIT_CODES.invalid_input}`);
+        expect(JSON.parse(consoleOutput[0])).toEqual({ error: { kind: 'invalid_input', message: "unknown option '--bogus'" } });
+        await expect(executeCommand(['--format', 'json', 'nope'])).rejects.toThrow(`Process exited with code ${EXIT_CODES.invalid_input}`);
+        expect(JSON.parse(consoleOutput[0])).toEqual({ error: { kind: 'invalid_input', message: expect.stringContaining("unknown command 'nope'") } });
+      } finally {
+        program.setOptionValueWithSource('json', false, 'default');
+        program.setOptionValueWithSource('format', undefined, 'default');
+      }
+    });
+  });
+
+  describe('address annotations', () => {
+    const configDir = mkdtempSync(join(tmpdir(), 'cazt-annotate-config-'));
+    const cacheDir = mkdtempSync(join(tmpdir(), 'cazt-annotate-cache-'));
+    const feeJuice = '0x0000000000000000000000000000000000000000000000000000000000000005';
+    const deployer = '0x0000000000000000000000000000000000000000000000000000000000000def';
+    let node: MockNode;
+
+    beforeAll(async () => {
+      process.env.CAZT_CONFIG_DIR = configDir;
+      process.env.CAZT_CACHE_DIR = cacheDir;
+      // Keep the test from computing the class ids of the bundled artifacts
+      const classesPath = contractClassesCachePath(cacheDir);
+      if (classesPath) {
+        writeFileSync(classesPath, '{}');
+      }
+      node = await startMockNode({
+        port: 0,
+        state: {
+          contracts: { [feeJuice]: { address: feeJuice, version: 5, salt: feeJuice, deployer } },
+          methods: { node_getProtocolContractAddresses: { classRegistry: '0x03', feeJuice } },
+        },
+      });
+    });
+
+    afterAll(async () => {
+      await node.close();
+      program.setOptionValueWithSource('annotate', false, 'default');
+      program.setOptionValueWithSource('rpcUrl', resolveRpcUrl(undefined), 'default');
+      delete process.env.CAZT_CONFIG_DIR;
+      process.env.CAZT_CACHE_DIR = testCacheDir;
+    });
+
+    it('should annotate only values under address-like keys', () => {
+      const annotations = buildAnnotations({
+        protocolAddresses: { feeJuice: '0x05', somethingNew: '0x07' },
+        labels: { fees: '0x0005' },
+        contractClasses: { '0x0abc': 'aztec:Token' },
+      });
+      expect(findAnnotations({ contract: { address: '0x05', version: '0x05' }, currentContractClassId: '0xABC', to: '0x07' }, annotations)).toEqual({
+        '0x05': { protocol: 'Fee juice', label: 'fees' },
+        '0xABC': { contractClass: 'aztec:Token' },
+        '0x07': { protocol: 'somethingNew' },
+      });
+      expect(findAnnotations('0x05', annotations)).toEqual({ '0x05': { protocol: 'Fee juice', label: 'fees' } });
+    });
+
+    it('should add protocol names and labels to JSON and pretty output', async () => {
+      await executeCommand(['--rpc-url', node.url, 'label', 'set', 'sequencer', deployer]);
+      
+      const json = JSON.parse(await executeCommand(['--rpc-url', node.url, '--annotate', 'contract', 'get', feeJuice]));
+      expect(json.result.address).toBe(feeJuice);
+      expect(json.annotations).toEqual({
+        [feeJuice]: { protocol: 'Fee juice' },
+        [deployer]: { label: 'sequencer' },
+      });
+      
+      const pretty = await executeCommand(['--rpc-url', node.url, '--annotate', '--human', 'contract', 'get', feeJuice]);
+      expect(pretty).toContain(`address: "${feeJuice} [protocol: Fee juice]"`);
+      expect(pretty).toContain(`deployer: "${deployer} [label: sequencer]"`);
+      expect(pretty).toContain(`salt: "${feeJuice}"`);
+      program.setOptionValueWithSource('format', undefined, 'default');
+      program.setOptionValueWithSource('human', undefined, 'default');
+    });
+  });
+
+  describe('contract functions', () => {
+    const address = { kind: 'struct', path: 'aztec::protocol_types::address::aztec_address::AztecAddress', fields: [{ name: 'inner', type: { kind: 'field' } }] };
+    const u128 = { kind: 'integer', sign: 'unsigned', width: 128 };
+    const transfer: any = {
+      name: 'transfer',
+      functionType: 'private',
+      parameters: [
+        { name: 'to', type: address, visibility: 'private' },
+        { name: 'amount', type: u128, visibility: 'private' },
+      ],
+      returnTypes: [{ kind: 'struct', path: 'token::Receipt', fields: [{ name: 'to', type: address }, { name: 'amount', type: u128 }, { name: 'settled', type: { kind: 'boolean' } }] }],
+    };
+
+    it('should encode JSON arguments from the function ABI', () => {
+      expect(describeFunction(transfer)).toBe('transfer(to: AztecAddress, amount: u128)');
+      
+      const [to, amount] = encodeFunctionArgs(transfer, ['0x05', '1000']);
+      expect(to.toString()).toBe('0x0000000000000000000000000000000000000000000000000000000000000005');
+      expect(amount).toBe(1000n);
+      
+      expect(() => encodeFunctionArgs(transfer, ['0x05'])).toThrow('transfer(to: AztecAddress, amount: u128) takes 2 argument(s), got 1');
+      expect(() => encodeFunctionArgs(transfer, ['0x05', 'lots'])).toThrow('Invalid argument "amount": expected u128');
+    });
+
+    it('should decode return values into named, typed JSON', () => {
+      const [to] = encodeFunctionArgs(transfer, ['0x05', '0']);
+      expect(returnValuesToJson(transfer, { to, amount: 2n ** 100n, settled: true })).toEqual({
+        to: '0x0000000000000000000000000000000000000000000000000000000000000005',
+        amount: '1267650600228229401496703205376',
+        settled: true,
+      });
+      expect(returnValuesToJson({ ...transfer, returnTypes: [] }, [])).toBeNull();
+    });
+
+    it('should decode public events by their selector', async () => {
+      const fields = [{ name: 'to', type: address }, { name: 'amount', type: u128 }];
+      const artifact: any = { outputs: { structs: { events: [{ kind: 'struct', path: 'token::Transfer', fields }] } } };
+      const signature = AztecUtilities.decodeFunctionSignature(JSON.stringify({ name: 'Transfer', parameters: fields }));
+      const selector = await AztecUtilities.eventSelector(signature);
+      const contractAddress = '0x0000000000000000000000000000000000000000000000000000000000000abc';
+      
+      const events = await decodePublicEvents(artifact, [
+        { contractAddress, fields: ['0x05', '0x64', selector] },
+        { contractAddress, fields: ['0x01', '0x12345678'] },
+      ]);
+      expect(events).toEqual([
+        { contractAddress, event: 'Transfer', fields: { to: '0x0000000000000000000000000000000000000000000000000000000000000005', amount: '100' } },
+        { contractAddress, event: null, fields: ['0x01', '0x12345678'] },
+      ]);
+    });
+
+    it('should parse fee options as <da>,<l2> pairs', () => {
+      expect(parseFeeOptions({})).toBeUndefined();
+      expect(Object.keys(parseFeeOptions({ gasLimits: '1000,2000000', maxFeesPerGas: '10,20' }).gasSettings)).toEqual(['gasLimits', 'maxFeesPerGas']);
+      expect(() => parseFeeOptions({ gasLimits: '1000' })).toThrow('Invalid gas limits "1000" (expected "<da>,<l2>")');
+    });
+  });
+
+  describe('plugins', () => {
+    it('should register plugin commands and report plugins that fail to load', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'cazt-plugins-'));
+      writeFileSync(join(dir, 'hello.mjs'), `export default function register({ program, outputResult }) {
+  program.command('hello').argument('<name>').action((name) => outputResult('hello ' + name));
+}`);
+      mkdirSync(join(dir, 'decoder'));
+      writeFileSync(join(dir, 'decoder', 'package.json'), JSON.stringify({ name: 'decoder', version: '1.2.0', main: 'main.mjs' }));
+      writeFileSync(join(dir, 'decoder', 'main.mjs'), `export function register({ program }) { program.command('decode'); }`);
+      writeFileSync(join(dir, 'broken.mjs'), `export const nothing = 1;`);
+      process.env.CAZT_PLUGINS_DIR = dir;
+      
+      const outputs: any[] = [];
+      const plugin = new Command().exitOverride();
+      const context = { program: plugin, outputResult: (value: any) => outputs.push(value) } as unknown as PluginContext;
+      try {
+        const loaded = await loadPlugins(context, dir);
+        
+        expect(loaded.map((p) => [p.name, p.commands])).toEqual([['broken', []], ['decoder', ['decode']], ['hello', ['hello']]]);
+        expect(loaded[0].error).toContain('no register function');
+        expect(loaded[1].version).toBe('1.2.0');
+        await plugin.parseAsync(['hello', 'cazt'], { from: 'user' });
+        expect(outputs).toEqual(['hello cazt']);
+      } finally {
+        delete process.env.CAZT_PLUGINS_DIR;
+      }
+    });
+
+    it('should only load plugins from the working directory when opted in', () => {
+      const cwd = mkdtempSync(join(tmpdir(), 'cazt-project-'));
+      mkdirSync(join(cwd, 'node_modules', 'cazt-plugin-local'), { recursive: true });
+      process.env.CAZT_PLUGINS_DIR = join(cwd, 'plugins');
+      try {
+        expect(discoverPlugins(join(cwd, 'cazt'), cwd)).toEqual([]);
+        process.env.CAZT_PROJECT_PLUGINS = '1';
+        expect(discoverPlugins(join(cwd, 'cazt'), cwd).map((p) => p.name)).toEqual(['cazt-plugin-local']);
+      } finally {
+        delete process.env.CAZT_PLUGINS_DIR;
+        delete process.env.CAZT_PROJECT_PLUGINS;
+      }
+    });
+  });
 });